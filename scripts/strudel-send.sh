@@ -3,6 +3,8 @@
 
 SERVER_URL="http://localhost:3001"
 TIMEOUT=10  # 10 second timeout for requests
+QUANTIZE="" # now | cycle | N | at:CYCLE
+SAFE=""     # set to validate in the shadow page before going live
 
 show_usage() {
   echo "Usage: $0 [OPTIONS] [FILE]"
@@ -14,7 +16,14 @@ show_usage() {
   echo "  -s, --stop     Stop Strudel playback (hush)"
   echo "  -i, --init     Initialize browser"
   echo "  --status       Show server status"
+  echo "  -q, --query FILE [FROM] [TO]"
+  echo "                 Print the haps of FILE between cycles FROM and TO as JSON"
+  echo "  -r, --render FILE [CYCLES]"
+  echo "                 Render CYCLES (default: 4) of FILE to a WAV in the working directory"
   echo "  -t, --timeout  Set timeout in seconds (default: 10)"
+  echo "  -Q, --quantize WHEN"
+  echo "                 Apply the change at: now, cycle, N (next multiple of N cycles) or at:CYCLE"
+  echo "  -S, --safe     Check the code in a hidden page first; keep the live pattern if it fails"
   echo ""
   echo "EXAMPLES:"
   echo "  $0 my-pattern.strdl      # Send file to Strudel"
@@ -22,6 +31,10 @@ show_usage() {
   echo "  $0 --stop                # Stop playback"
   echo "  $0 --init                # Start browser"
   echo "  $0 -t 5 file.strdl       # Use 5 second timeout"
+  echo "  $0 -Q 4 file.strdl       # Switch at the next 4-cycle bar"
+  echo "  $0 -S file.strdl         # Only go live if the code evaluates cleanly"
+  echo "  $0 --query yoyo.strdl 0 2 # Inspect the first two cycles"
+  echo "  $0 --render yoyo.strdl 8  # Bounce eight cycles to yoyo-<time>.wav"
   echo ""
   echo "FROM NEOVIM:"
   echo "  :!$0 %                   # Send current file"
@@ -31,6 +44,7 @@ show_usage() {
 send_to_strudel() {
   local data="$1"
   local endpoint="$2"
+  local file="$3"
 
   if [ -z "$data" ]; then
     echo "❌ No data to send"
@@ -39,13 +53,21 @@ send_to_strudel() {
 
   echo "📤 Sending to Strudel (timeout: ${TIMEOUT}s)..."
 
+  # Optional query: quantization, safe send and the source file for the evaluation history
+  local query=""
+  [ -n "$QUANTIZE" ] && query="quantize=$QUANTIZE"
+  [ -n "$SAFE" ] && query="${query:+$query&}safe=1"
+  if [ -n "$file" ]; then
+    query="${query:+$query&}file=$(python3 -c 'import os,sys,urllib.parse; print(urllib.parse.quote(os.path.abspath(sys.argv[1])))' "$file")"
+  fi
+
   local response
   response=$(echo "$data" | curl -s -X POST \
     -H "Content-Type: text/plain" \
     --data-binary @- \
     --max-time "$TIMEOUT" \
     --connect-timeout 5 \
-    "$SERVER_URL$endpoint")
+    "$SERVER_URL$endpoint${query:+?$query}")
 
   local exit_code=$?
 
@@ -78,6 +100,18 @@ while [[ $# -gt 0 ]]; do
       fi
       shift 2
       ;;
+    -Q|--quantize)
+      QUANTIZE="$2"
+      if ! [[ "$QUANTIZE" =~ ^(now|cycle|[0-9]+|at:[0-9.]+)$ ]]; then
+        echo "❌ Invalid quantize value: $QUANTIZE"
+        exit 1
+      fi
+      shift 2
+      ;;
+    -S|--safe)
+      SAFE=1
+      shift
+      ;;
     -s|--stop)
       echo "⏹️ Stopping Strudel..."
       curl -s -X POST --max-time "$TIMEOUT" --connect-timeout 5 "$SERVER_URL/api/hush"
@@ -115,6 +149,36 @@ while [[ $# -gt 0 ]]; do
       fi
       exit $exit_code
       ;;
+    -q|--query)
+      if [ ! -f "$2" ]; then
+        echo "❌ File not found: $2"
+        exit 1
+      fi
+      payload=$(python3 -c 'import json,sys; print(json.dumps({"code": open(sys.argv[1]).read(), "from": float(sys.argv[2]), "to": float(sys.argv[3])}))' \
+        "$2" "${3:-0}" "${4:-1}")
+      curl -s -X POST \
+        -H "Content-Type: application/json" \
+        --data-binary "$payload" \
+        --max-time "$TIMEOUT" \
+        "$SERVER_URL/api/pattern/query" | python3 -m json.tool
+      exit ${PIPESTATUS[0]}
+      ;;
+    -r|--render)
+      if [ ! -f "$2" ]; then
+        echo "❌ File not found: $2"
+        exit 1
+      fi
+      echo "🎚️ Rendering $2..."
+      payload=$(python3 -c 'import json,os,sys; print(json.dumps({"file": os.path.abspath(sys.argv[1]), "cycles": float(sys.argv[2])}))' \
+        "$2" "${3:-4}")
+      # Rendering loads samples in a fresh page, so allow well beyond the send timeout
+      curl -s -X POST \
+        -H "Content-Type: application/json" \
+        --data-binary "$payload" \
+        --max-time $((TIMEOUT * 12)) \
+        "$SERVER_URL/api/pattern/render" | python3 -m json.tool
+      exit ${PIPESTATUS[0]}
+      ;;
     -*)
       echo "Unknown option: $1"
       show_usage
@@ -123,7 +187,7 @@ while [[ $# -gt 0 ]]; do
     *)
       # File argument
       if [ -f "$1" ]; then
-        send_to_strudel "$(cat "$1")" "/api/send-current-buffer"
+        send_to_strudel "$(cat "$1")" "/api/send-current-buffer" "$1"
         exit $?
       else
         echo "❌ File not found: $1"
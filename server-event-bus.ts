@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Typed event bus for live Strudel server state.
+ * @author Zedro
+ * @module
+ */
+
+import type { EvaluationError, Quantize } from "./server-playwright-manager";
+
+/**
+* Payloads of every event the server can publish, keyed by event type.
+*/
+export interface StrudelEventMap {
+  "server:state": {
+    neovimConnected: boolean;
+    browserConnected: boolean;
+    playing: boolean;
+    recording: boolean;
+    filesCount: number;
+  };
+  "neovim:connected": { name: string; address: string };
+  "neovim:disconnected": { name: string; address?: string; reason?: string };
+  "browser:initialized": { strudelUrl: string };
+  "browser:crashed": { reason: string };
+  "code:sent": { code: string; quantize?: Quantize };
+  "code:evaluated": { success: boolean; errors: EvaluationError[]; cycle?: number }; // cycle the change takes effect at
+  "code:rejected": { errors: EvaluationError[] };
+  "code:diagnostics": { source?: string; success: boolean; errors: EvaluationError[] }; // lines of the source file
+  "playback:started": Record<string, never>;
+  "playback:stopped": Record<string, never>;
+  "playback:highlight": { // sounding code locations, in the source file
+    source?: string;
+    ranges: { start: number; end: number; line: number; column: number; endLine: number; endColumn: number }[];
+  };
+  "recording:started": { path: string };
+  "recording:stopped": { path: string; bytes: number };
+  "file:added": { path: string; isVirtual?: boolean; bufnr?: number };
+  "file:changed": { path: string; isVirtual?: boolean; bufnr?: number };
+  "file:removed": { path: string };
+  "tempo:changed": { cps: number; bpm: number };
+  "slider:changed": { id: string; name?: string; value: number };
+  "history:recorded": { source: string; id: number; hash: string; success: boolean };
+  "scene:changed": { index: number; name: string; file: string; cycle?: number };
+  "session:recording": { recording: boolean; path?: string };
+  "samples:changed": { sounds: number; files: number };
+  "samples:cached": { pack: string; files: number; failed: number };
+  "samples:preload": { state: "loading" | "done" | "timeout" | "failed"; total: number; loaded: number; failed: number };
+  "session:replay": { state: "started" | "finished" | "stopped" | "failed"; file: string; error?: string };
+  "tracks:changed": {
+    tracks: { name: string; line: number; endLine: number; muted: boolean; soloed: boolean; playing: boolean }[];
+  };
+}
+
+export type StrudelEventType = keyof StrudelEventMap;
+
+export interface StrudelEvent<T extends StrudelEventType = StrudelEventType> {
+  type: T;
+  timestamp: string;
+  data: StrudelEventMap[T];
+}
+
+export type StrudelEventListener = (event: StrudelEvent) => void;
+
+/**
+* @class EventBus
+* @description Fans out server state changes to every subscribed listener.
+*/
+export class EventBus {
+  private listeners: Set<StrudelEventListener> = new Set();
+
+  /**
+  * Build an event without publishing it.
+  * @public
+  *
+  * @param {StrudelEventType} type - The event type.
+  * @param {object} data - The event payload.
+  * @returns {StrudelEvent} - The timestamped event.
+  */
+  createEvent<T extends StrudelEventType>(type: T, data: StrudelEventMap[T]): StrudelEvent<T> {
+    return {
+      type,
+      timestamp: new Date().toISOString(),
+      data
+    };
+  }
+
+  /**
+  * Publish an event to every listener.
+  * @public
+  *
+  * @param {StrudelEventType} type - The event type.
+  * @param {object} data - The event payload.
+  */
+  emit<T extends StrudelEventType>(type: T, data: StrudelEventMap[T]): void {
+    const event = this.createEvent(type, data);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`❌ Event listener failed for ${type}:`, error);
+      }
+    }
+  }
+
+  /**
+  * Register a listener for all events.
+  * @public
+  *
+  * @param {StrudelEventListener} listener - Called with every published event.
+  * @returns {Function} - Unsubscribes the listener.
+  */
+  subscribe(listener: StrudelEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+  * Remove every listener.
+  * @public
+  */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
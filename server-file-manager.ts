@@ -9,6 +9,7 @@
 
 import { watch } from "fs";
 import path from "path";
+import type { EventBus } from "./server-event-bus";
 
 export interface FileInfo {
   path: string;
@@ -42,15 +43,18 @@ export class FileManager {
   private files: Map<string, FileInfo> = new Map();
   private watchers: Map<string, any> = new Map();
   private workingDir: string;
+  private events?: EventBus;
 
   /**
   * Create a new file manager instance.
   * @constructor
   *
   * @param {string} workingDir - The working directory for the file manager.
+  * @param {EventBus} events - Optional bus that receives file added/changed/removed events.
   */
-  constructor(workingDir: string = process.cwd()) {
+  constructor(workingDir: string = process.cwd(), events?: EventBus) {
     this.workingDir = workingDir;
+    this.events = events;
   }
 
   /**
@@ -130,6 +134,9 @@ export class FileManager {
         if (eventType === 'change') {
           console.log(`📝 File changed: ${relativePath}`);
           await this.addFile(fullPath, relativePath);
+        } else if (eventType === 'rename' && !(await Bun.file(fullPath).exists())) {
+          // Renames and deletions both surface as 'rename'; only drop files that are gone
+          this.removeFile(relativePath);
         }
       });
 
@@ -154,14 +161,14 @@ export class FileManager {
   * @public
   * 
   * @param {object} bufferData - The data of the buffer to add.
-  * @returns {void}
+  * @returns {FileInfo} - The tracked file.
   */
   addBufferFile(bufferData: {
     path: string;
     name: string;
     content: string;
     bufnr: number;
-  }): void {
+  }): FileInfo {
     const bufferPath = bufferData.path;
     const isVirtual = this.isVirtualPath(bufferPath);
 
@@ -180,7 +187,13 @@ export class FileManager {
       isVirtual: isVirtual
     };
 
+    const existed = this.files.has(fileKey);
     this.files.set(fileKey, fileInfo);
+    this.events?.emit(existed ? "file:changed" : "file:added", {
+      path: fileKey,
+      isVirtual,
+      bufnr: bufferData.bufnr
+    });
 
     if (isVirtual) {
       console.log(`📋 Added virtual buffer: ${bufferData.name} (buffer: ${bufferData.bufnr})`);
@@ -192,6 +205,30 @@ export class FileManager {
         console.error(`❌ Could not watch file ${bufferPath}:`, error);
       });
     }
+    return fileInfo;
+  }
+
+  /**
+  * Replace the in-memory content of a tracked buffer, e.g. with unsaved edits. The disk is left alone.
+  * @public
+  *
+  * @param {string} filePath - The path of the file to update.
+  * @param {string} content - The current buffer text.
+  * @returns {boolean} - True if the file is tracked, false otherwise.
+  */
+  updateBufferContent(filePath: string, content: string): boolean {
+    const file = this.files.get(filePath);
+    if (!file) {
+      return false;
+    }
+    if (file.content === content) {
+      return true;
+    }
+
+    file.content = content;
+    file.lastModified = new Date();
+    this.events?.emit("file:changed", { path: filePath, isVirtual: file.isVirtual, bufnr: file.bufnr });
+    return true;
   }
 
   // Enhanced buffer filtering for scanNeovimBuffers
@@ -247,25 +284,77 @@ export class FileManager {
     console.log("📁 Scanning local files...");
     let totalFiles = 0;
 
+    for (const file of await this.scanPaths(this.workingDir, patterns, excludeDirs)) {
+      const fullPath = path.join(this.workingDir, file);
+      await this.addFile(fullPath, file);
+      totalFiles++;
+    }
+
+    console.log(`📁 Scanned ${totalFiles} local files`);
+  }
+
+  /**
+  * List the files of a directory matching glob patterns, skipping excluded and hidden paths.
+  * @public
+  * @async
+  *
+  * @param {string} dir - Directory to scan.
+  * @param {string[]} patterns - Glob patterns, relative to the directory.
+  * @param {string[]} excludeDirs - Paths containing any of these are skipped.
+  * @returns {Promise<string[]>} - Matching paths, relative to the directory.
+  */
+  async scanPaths(dir: string, patterns: string[], excludeDirs: string[] = []): Promise<string[]> {
+    const files = new Set<string>();
+
     for (const pattern of patterns) {
       const glob = new Bun.Glob(pattern);
 
       for await (const file of glob.scan({
-        cwd: this.workingDir,
+        cwd: dir,
         onlyFiles: true,
         followSymlinks: false,
       })) {
-        if (excludeDirs.some(dir => file.includes(dir)) || file.startsWith('.')) {
+        if (excludeDirs.some(excluded => file.includes(excluded)) || file.startsWith('.')) {
           continue;
         }
-
-        const fullPath = path.join(this.workingDir, file);
-        await this.addFile(fullPath, file);
-        totalFiles++;
+        files.add(file);
       }
     }
 
-    console.log(`📁 Scanned ${totalFiles} local files`);
+    return Array.from(files);
+  }
+
+  /**
+  * Watch a directory tree for added, changed and removed files.
+  * @public
+  *
+  * @param {string} dir - Directory to watch.
+  * @param {Function} onChange - Called with the path of the changed file, relative to the directory.
+  * @returns {boolean} - True if the watcher was started, false otherwise.
+  */
+  watchDirectory(dir: string, onChange: (relativePath: string) => void): boolean {
+    const key = `dir:${dir}`;
+    this.watchers.get(key)?.close();
+
+    try {
+      const watcher = watch(dir, { persistent: false, recursive: true }, (_eventType, filename) => {
+        if (filename) {
+          onChange(filename.toString());
+        }
+      });
+
+      watcher.on('error', (error) => {
+        console.error(`❌ Directory watcher error for ${dir}:`, error);
+        this.watchers.delete(key);
+      });
+
+      this.watchers.set(key, watcher);
+      console.log(`👀 Watching directory: ${dir}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to watch directory ${dir}:`, error);
+      return false;
+    }
   }
 
   /**
@@ -287,10 +376,14 @@ export class FileManager {
         name: path.basename(relativePath),
         content: fileContent,
         lastModified: new Date(stats.mtime || Date.now()),
+        // Saving an open buffer rewrites the file; it is still that buffer
+        bufnr: this.files.get(relativePath)?.bufnr,
         isVirtual: false
       };
 
+      const existed = this.files.has(relativePath);
       this.files.set(relativePath, fileInfo);
+      this.events?.emit(existed ? "file:changed" : "file:added", { path: relativePath, isVirtual: false });
       await this.watchFile(fullPath, relativePath);
 
       console.log(`📄 Added file: ${relativePath}`);
@@ -299,6 +392,29 @@ export class FileManager {
     }
   }
 
+  /**
+  * Remove a file from the file manager and stop watching it.
+  * @public
+  *
+  * @param {string} filePath - The path of the file to remove.
+  * @returns {boolean} - True if the file was tracked, false otherwise.
+  */
+  removeFile(filePath: string): boolean {
+    const watcher = this.watchers.get(filePath);
+    if (watcher) {
+      watcher.close();
+      this.watchers.delete(filePath);
+    }
+
+    if (!this.files.delete(filePath)) {
+      return false;
+    }
+
+    this.events?.emit("file:removed", { path: filePath });
+    console.log(`🗑️ Removed file: ${filePath}`);
+    return true;
+  }
+
   /**
   * Update the content of a file.
   * @public
@@ -322,6 +438,7 @@ export class FileManager {
       file.content = content;
       file.lastModified = new Date();
       this.files.set(filePath, file);
+      this.events?.emit("file:changed", { path: filePath, isVirtual: true, bufnr: file.bufnr });
       return true;
     }
 
@@ -332,6 +449,7 @@ export class FileManager {
       file.content = content;
       file.lastModified = new Date();
       this.files.set(filePath, file);
+      this.events?.emit("file:changed", { path: filePath, isVirtual: false });
 
       console.log(`💾 Updated file: ${filePath}`);
       return true;
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { HISTORY_DIR, HistoryManager, SCRATCH_SOURCE, diffLines, historyFileName } from "./server-history-manager";
+
+describe("historyFileName", () => {
+  test("gives distinct paths distinct files", () => {
+    const names = ["a/b.strdl", "a_b.strdl", "/a/b.strdl", "a b.strdl", "a%2Fb.strdl"].map(historyFileName);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  test("keeps names inside the history directory", () => {
+    for (const source of ["../../etc/passwd", "/abs/path.strdl", "virtual:[No Name]:3"]) {
+      const name = historyFileName(source);
+      expect(name).not.toContain("/");
+      expect(path.basename(name)).toBe(name);
+      expect(name.endsWith(".json")).toBe(true);
+    }
+  });
+});
+
+describe("HistoryManager", () => {
+  let workingDir: string;
+
+  beforeEach(async () => {
+    workingDir = await mkdtemp(path.join(tmpdir(), "strudel-history-"));
+  });
+
+  afterEach(async () => {
+    await rm(workingDir, { recursive: true, force: true });
+  });
+
+  test("keeps sources that used to share a file apart, also after a restart", async () => {
+    const history = new HistoryManager(workingDir);
+    await history.record({ code: "s('bd')", source: "a/b.strdl", success: true });
+    await history.record({ code: "s('hh')", source: "a_b.strdl", success: true });
+
+    expect(await readdir(path.join(workingDir, HISTORY_DIR))).toHaveLength(2);
+
+    const reloaded = new HistoryManager(workingDir);
+    expect((await reloaded.get("a/b.strdl"))?.code).toBe("s('bd')");
+    expect((await reloaded.get("a_b.strdl"))?.code).toBe("s('hh')");
+    expect((await reloaded.listSources()).map(entry => entry.source).sort()).toEqual(["a/b.strdl", "a_b.strdl"]);
+  });
+
+  test("records sends without a source as scratch", async () => {
+    const history = new HistoryManager(workingDir);
+    const entry = await history.record({ code: "s('bd')", success: false, errors: ["boom"] });
+    expect(entry).toMatchObject({ id: 1, source: SCRATCH_SOURCE, success: false, errors: ["boom"] });
+  });
+});
+
+describe("diffLines", () => {
+  test("marks kept, removed and added lines", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([" a", "-b", " c", "+d"]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Persistent evaluation history with diff and rollback support.
+ * @author Zedro
+ * @module
+ *
+ * @requires path
+ */
+
+import path from "path";
+import type { EventBus } from "./server-event-bus";
+
+export interface HistoryEntry {
+  id: number;          // sequential per source, starting at 1
+  timestamp: string;
+  source: string;      // file path or buffer name the code came from
+  hash: string;        // sha256 of the code
+  success: boolean;
+  errors: string[];
+  code: string;
+  rollbackOf?: number; // id of the entry this one restored
+}
+
+export interface HistoryDiff {
+  from: number;
+  to: number;
+  added: number;
+  removed: number;
+  diff: string;        // unified-style lines prefixed with " ", "-" or "+"
+}
+
+// Directory inside the working directory holding one JSON file per source
+export const HISTORY_DIR = ".strudel-history";
+// Oldest entries are dropped past this many per source
+const MAX_HISTORY_ENTRIES = 500;
+// Source used when code is sent without saying where it came from
+export const SCRATCH_SOURCE = "scratch";
+
+/**
+* Name of the history file of a source. Sources are percent-encoded so that
+* distinct paths such as "a/b" and "a_b" never share a file.
+*
+* @param {string} source - File path or buffer name.
+* @returns {string} - File name inside the history directory.
+*/
+export function historyFileName(source: string): string {
+  return `${encodeURIComponent(source)}.json`;
+}
+
+/**
+* Line diff of two texts based on their longest common subsequence.
+*
+* @param {string} before - Old text.
+* @param {string} after - New text.
+* @returns {string[]} - Lines prefixed with " " (kept), "-" (removed) or "+" (added).
+*/
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(` ${a[i++]}`);
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`-${a[i++]}`);
+  while (j < b.length) lines.push(`+${b[j++]}`);
+  return lines;
+}
+
+/**
+* @class HistoryManager
+* @description Records every evaluated payload per source file, on disk in the working directory.
+*/
+export class HistoryManager {
+  private historyDir: string;
+  private events?: EventBus;
+  private entries: Map<string, HistoryEntry[]> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  /**
+  * @constructor
+  * @description Constructs a new HistoryManager instance.
+  *
+  * @param {string} workingDir - Directory the history folder lives in.
+  * @param {EventBus} events - Optional bus to publish new entries on.
+  */
+  constructor(workingDir: string = process.cwd(), events?: EventBus) {
+    this.historyDir = path.join(workingDir, HISTORY_DIR);
+    this.events = events;
+  }
+
+  /**
+  * Path of the history file of a source.
+  * @private
+  */
+  private historyPath(source: string): string {
+    return path.join(this.historyDir, historyFileName(source));
+  }
+
+  /**
+  * Load the entries of a source, from disk the first time.
+  * @private
+  * @async
+  */
+  private async load(source: string): Promise<HistoryEntry[]> {
+    let entries = this.entries.get(source);
+    if (!entries) {
+      const file = Bun.file(this.historyPath(source));
+      try {
+        entries = (await file.exists()) ? await file.json() as HistoryEntry[] : [];
+      } catch (error) {
+        console.error(`❌ Unreadable history for ${source}, starting over:`, error);
+        entries = [];
+      }
+      this.entries.set(source, entries);
+    }
+    return entries;
+  }
+
+  /**
+  * Write the entries of a source to disk, one write at a time per source.
+  * @private
+  */
+  private persist(source: string): Promise<void> {
+    const write = (this.writes.get(source) ?? Promise.resolve()).then(async () => {
+      await Bun.write(this.historyPath(source), JSON.stringify(this.entries.get(source) ?? [], null, 2));
+    }).catch(error => {
+      console.error(`❌ Failed to save history for ${source}:`, error);
+    });
+    this.writes.set(source, write);
+    return write;
+  }
+
+  /**
+  * Record an evaluation.
+  * @public
+  * @async
+  *
+  * @param {object} evaluation - Code, where it came from and how it went.
+  * @returns {Promise<HistoryEntry>} - The stored entry.
+  */
+  async record(evaluation: {
+    code: string;
+    source?: string;
+    success: boolean;
+    errors?: string[];
+    rollbackOf?: number;
+  }): Promise<HistoryEntry> {
+    const source = evaluation.source || SCRATCH_SOURCE;
+    const entries = await this.load(source);
+
+    const entry: HistoryEntry = {
+      id: (entries[entries.length - 1]?.id ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      source,
+      hash: new Bun.CryptoHasher("sha256").update(evaluation.code).digest("hex"),
+      success: evaluation.success,
+      errors: evaluation.errors ?? [],
+      code: evaluation.code,
+      ...(evaluation.rollbackOf !== undefined && { rollbackOf: evaluation.rollbackOf })
+    };
+
+    entries.push(entry);
+    if (entries.length > MAX_HISTORY_ENTRIES) {
+      entries.splice(0, entries.length - MAX_HISTORY_ENTRIES);
+    }
+    await this.persist(source);
+
+    this.events?.emit("history:recorded", { source, id: entry.id, hash: entry.hash, success: entry.success });
+    return entry;
+  }
+
+  /**
+  * List the sources that have a history, including ones saved by earlier runs.
+  * @public
+  * @async
+  *
+  * @returns {Promise<{ source: string, entries: number }[]>} - Sources and their entry counts.
+  */
+  async listSources(): Promise<{ source: string; entries: number }[]> {
+    const glob = new Bun.Glob("*.json");
+    try {
+      for await (const file of glob.scan({ cwd: this.historyDir })) {
+        const entries: HistoryEntry[] = await Bun.file(path.join(this.historyDir, file)).json().catch(() => []);
+        const source = entries[0]?.source;
+        if (source && !this.entries.has(source)) {
+          this.entries.set(source, entries);
+        }
+      }
+    } catch {
+      // No history directory yet
+    }
+
+    return [...this.entries].map(([source, entries]) => ({ source, entries: entries.length }));
+  }
+
+  /**
+  * List the entries of a source, without their code.
+  * @public
+  * @async
+  *
+  * @param {string} source - File path or buffer name.
+  * @returns {Promise<Omit<HistoryEntry, "code">[]>} - Entries, oldest first.
+  */
+  async list(source: string): Promise<Omit<HistoryEntry, "code">[]> {
+    return (await this.load(source)).map(({ code: _code, ...entry }) => entry);
+  }
+
+  /**
+  * Get one entry of a source.
+  * @public
+  * @async
+  *
+  * @param {string} source - File path or buffer name.
+  * @param {number} id - Entry id; defaults to the latest entry.
+  * @returns {Promise<HistoryEntry | null>} - The entry, or null when missing.
+  */
+  async get(source: string, id?: number): Promise<HistoryEntry | null> {
+    const entries = await this.load(source);
+    const entry = id === undefined ? entries[entries.length - 1] : entries.find(e => e.id === id);
+    return entry ?? null;
+  }
+
+  /**
+  * Diff two entries of a source.
+  * @public
+  * @async
+  *
+  * @param {string} source - File path or buffer name.
+  * @param {number} from - Older entry id.
+  * @param {number} to - Newer entry id; defaults to the latest entry.
+  * @returns {Promise<HistoryDiff>} - The line diff.
+  * @throws {Error} - When an entry does not exist.
+  */
+  async diff(source: string, from: number, to?: number): Promise<HistoryDiff> {
+    const before = await this.get(source, from);
+    const after = await this.get(source, to);
+    if (!before || !after) {
+      throw new Error(`History entry not found for ${source}: ${!before ? from : to}`);
+    }
+
+    const lines = diffLines(before.code, after.code);
+    return {
+      from: before.id,
+      to: after.id,
+      added: lines.filter(line => line.startsWith("+")).length,
+      removed: lines.filter(line => line.startsWith("-")).length,
+      diff: lines.join("\n")
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { Linter } from "./server-linter";
+import type { PatternEvaluator } from "./server-pattern-evaluator";
+
+// Only scopeNames() is used by the linter
+const evaluator = { scopeNames: async () => ["s", "note", "stack", "n"] } as unknown as PatternEvaluator;
+
+describe("Linter", () => {
+  const linter = new Linter(evaluator);
+
+  test("passes clean code", async () => {
+    expect(await linter.lint('stack(s("bd sd"), note("c e g").s("piano"))')).toEqual({ success: true, diagnostics: [] });
+  });
+
+  test("reports JavaScript syntax errors with their position", async () => {
+    const result = await linter.lint('s("bd")\nnote("c" +)');
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ severity: "error", source: "syntax", line: 2, column: 11 });
+    expect(result.diagnostics[0].message).not.toMatch(/\(\d+:\d+\)$/);
+  });
+
+  test("reports mini-notation errors inside double-quoted strings and template literals", async () => {
+    const result = await linter.lint('s("bd [sd")\nnote(`c [e`)');
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map(diagnostic => [diagnostic.source, diagnostic.line])).toEqual([["mini", 1], ["mini", 2]]);
+    expect(result.diagnostics[0].message.startsWith("[mini] ")).toBe(true);
+  });
+
+  test("leaves single-quoted strings alone", async () => {
+    expect((await linter.lint("s('bd [sd')")).success).toBe(true);
+  });
+
+  test("warns about unknown functions without failing", async () => {
+    const result = await linter.lint('s("bd").fast(2)\nsoundd("hh")');
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ severity: "warning", source: "unknown-function", message: "Unknown function: soundd", line: 2, column: 1 })
+    ]);
+  });
+
+  test("knows functions declared in the code and the browser REPL's own", async () => {
+    const code = 'const beat = (x) => s(x)\nfunction bass() { return note("c2") }\nsetcps(1)\nstack(beat("bd"), bass())';
+    expect((await linter.lint(code)).diagnostics).toEqual([]);
+  });
+
+  test("puts errors before warnings", async () => {
+    const result = await linter.lint('foo()\ns("bd [")');
+    expect(result.diagnostics.map(diagnostic => diagnostic.severity)).toEqual(["error", "warning"]);
+  });
+});
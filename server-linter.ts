@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Static linter for Strudel code: JavaScript syntax, mini-notation and unknown functions.
+ * @author Zedro
+ * @module
+ *
+ * @requires acorn
+ * @requires @strudel/mini
+ */
+
+import { parse } from "acorn";
+import { offsetToPosition } from "./server-pattern-evaluator";
+import type { PatternEvaluator } from "./server-pattern-evaluator";
+
+export interface LintDiagnostic {
+  severity: "error" | "warning";
+  source: "syntax" | "mini" | "unknown-function";
+  message: string;
+  start: number;      // character offsets into the code
+  end: number;
+  line: number;       // 1-based
+  column: number;     // 1-based
+  endLine: number;
+  endColumn: number;
+}
+
+export interface LintResult {
+  success: boolean;   // no errors; warnings allowed
+  diagnostics: LintDiagnostic[];
+}
+
+// Added to the scope by the REPL on its first evaluation, and by the browser REPL only (webaudio, draw, codemirror, hydra, soundfonts, midi)
+const BROWSER_SCOPE = [
+  "all", "each", "hush", "cpm", "setCps", "setcps", "setCpm", "setcpm",
+  "samples", "aliasBank", "soundAlias", "registerSound", "registerSynthSounds", "registerZZFXSounds",
+  "getAudioContext", "initAudio", "initAudioOnFirstClick", "superdough", "panic",
+  "setDefaultValue", "setDefaultValues", "setMaxPolyphony", "setMultiChannelOrbits", "setGainCurve", "setVersionDefaults",
+  "pianoroll", "pitchwheel", "drawPianoroll", "getDrawContext", "setTheme",
+  "slider", "sliderWithID", "markcss", "flash",
+  "H", "initHydra", "clearHydra",
+  "loadSoundfont", "registerSoundfonts", "setSoundfontUrl",
+  "midin", "enableWebMidi", "midimaps", "defaultmidimap"
+];
+
+/**
+* Build a diagnostic covering a range of the code.
+*
+* @param {string} code - Linted code.
+* @param {Omit<LintDiagnostic, "line" | "column" | "endLine" | "endColumn">} diagnostic - Severity, message and offsets.
+* @returns {LintDiagnostic} - The diagnostic with line and column positions.
+*/
+function diagnosticAt(
+  code: string,
+  diagnostic: Omit<LintDiagnostic, "line" | "column" | "endLine" | "endColumn">
+): LintDiagnostic {
+  const start = offsetToPosition(code, diagnostic.start);
+  const end = offsetToPosition(code, diagnostic.end);
+  return { ...diagnostic, line: start.line, column: start.column, endLine: end.line, endColumn: end.column };
+}
+
+/**
+* Visit every node of an acorn AST with its parent.
+*
+* @param {any} node - Root node.
+* @param {Function} visit - Called for each node.
+* @param {any} parent - Parent of the root node.
+*/
+function walk(node: any, visit: (node: any, parent: any) => void, parent: any = null): void {
+  visit(node, parent);
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "loc") continue;
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child === "object" && typeof child.type === "string") {
+        walk(child, visit, node);
+      }
+    }
+  }
+}
+
+/**
+* Collect the identifiers bound by a declaration pattern (`x`, `[a, b]`, `{ c, d: e }`, `f = 1`, `...g`).
+*
+* @param {any} pattern - Pattern node.
+* @param {Set<string>} names - Set the names are added to.
+*/
+function bindNames(pattern: any, names: Set<string>): void {
+  if (!pattern) return;
+  switch (pattern.type) {
+    case "Identifier":
+      names.add(pattern.name);
+      break;
+    case "ArrayPattern":
+      pattern.elements.forEach((element: any) => bindNames(element, names));
+      break;
+    case "ObjectPattern":
+      pattern.properties.forEach((property: any) => bindNames(property.type === "RestElement" ? property : property.value, names));
+      break;
+    case "AssignmentPattern":
+      bindNames(pattern.left, names);
+      break;
+    case "RestElement":
+      bindNames(pattern.argument, names);
+      break;
+  }
+}
+
+/**
+* @class Linter
+* @description Checks Strudel code without evaluating it: cheap enough to run on every keystroke.
+*/
+export class Linter {
+  private patternEvaluator: PatternEvaluator;
+  private ready?: Promise<void>;
+  private parseMini!: (source: string) => unknown;
+  private knownNames = new Set<string>();
+
+  /**
+  * @constructor
+  * @description Constructs a new Linter instance.
+  *
+  * @param {PatternEvaluator} patternEvaluator - Provides the names in Strudel's evaluation scope.
+  */
+  constructor(patternEvaluator: PatternEvaluator) {
+    this.patternEvaluator = patternEvaluator;
+  }
+
+  /**
+  * Load the mini-notation parser and the known names (once).
+  * @private
+  * @async
+  */
+  private async init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const mini: any = await import("@strudel/mini");
+        this.parseMini = mini.parse;
+        this.knownNames = new Set([...(await this.patternEvaluator.scopeNames()), ...BROWSER_SCOPE]);
+      })();
+    }
+    return this.ready;
+  }
+
+  /**
+  * Lint a piece of code.
+  * @public
+  * @async
+  *
+  * @param {string} code - Strudel code.
+  * @returns {Promise<LintResult>} - Diagnostics, errors first in code order.
+  */
+  async lint(code: string): Promise<LintResult> {
+    await this.init();
+
+    let ast: any;
+    try {
+      // Same options as the Strudel transpiler
+      ast = parse(code, { ecmaVersion: 2022, allowAwaitOutsideFunction: true });
+    } catch (error: any) {
+      const start = typeof error.pos === "number" ? error.pos : 0;
+      const diagnostic = diagnosticAt(code, {
+        severity: "error",
+        source: "syntax",
+        message: String(error.message).replace(/ \(\d+:\d+\)$/, ""),
+        start,
+        end: Math.min(start + 1, code.length)
+      });
+      return { success: false, diagnostics: [diagnostic] };
+    }
+
+    const diagnostics: LintDiagnostic[] = [];
+    const declared = new Set<string>();
+    const calls: any[] = [];
+
+    walk(ast, (node, parent) => {
+      switch (node.type) {
+        case "VariableDeclarator":
+          bindNames(node.id, declared);
+          break;
+        case "FunctionDeclaration":
+        case "FunctionExpression":
+        case "ArrowFunctionExpression":
+          bindNames(node.id, declared);
+          node.params.forEach((param: any) => bindNames(param, declared));
+          break;
+        case "ClassDeclaration":
+          bindNames(node.id, declared);
+          break;
+        case "CatchClause":
+          bindNames(node.param, declared);
+          break;
+        case "CallExpression":
+          if (node.callee.type === "Identifier") calls.push(node.callee);
+          break;
+        // The transpiler turns double-quoted strings and untagged template literals into mini-notation
+        case "Literal":
+          if (typeof node.value === "string" && node.raw?.startsWith('"')) {
+            this.lintMini(code, node.value, node.start, diagnostics);
+          }
+          break;
+        case "TemplateLiteral":
+          if (parent?.type !== "TaggedTemplateExpression" && node.expressions.length === 0) {
+            this.lintMini(code, node.quasis[0].value.raw, node.start, diagnostics);
+          }
+          break;
+      }
+    });
+
+    for (const callee of calls) {
+      if (declared.has(callee.name) || this.knownNames.has(callee.name)) continue;
+      diagnostics.push(diagnosticAt(code, {
+        severity: "warning",
+        source: "unknown-function",
+        message: `Unknown function: ${callee.name}`,
+        start: callee.start,
+        end: callee.end
+      }));
+    }
+
+    diagnostics.sort((a, b) => (a.severity === b.severity ? a.start - b.start : a.severity === "error" ? -1 : 1));
+    return {
+      success: !diagnostics.some(diagnostic => diagnostic.severity === "error"),
+      diagnostics
+    };
+  }
+
+  /**
+  * Parse one mini-notation string and report its syntax error, if any.
+  * @private
+  *
+  * @param {string} code - Linted code.
+  * @param {string} value - String contents.
+  * @param {number} offset - Offset of the opening quote in the code.
+  * @param {LintDiagnostic[]} diagnostics - List the diagnostic is added to.
+  */
+  private lintMini(code: string, value: string, offset: number, diagnostics: LintDiagnostic[]): void {
+    try {
+      // The parser expects the quotes, which keeps its offsets aligned with the code
+      this.parseMini(`"${value}"`);
+    } catch (error: any) {
+      const location = error.location;
+      const start = offset + (location?.start.offset ?? 0);
+      diagnostics.push(diagnosticAt(code, {
+        severity: "error",
+        source: "mini",
+        message: `[mini] ${error.message}`,
+        start,
+        end: Math.max(start + 1, offset + (location?.end.offset ?? 0))
+      }));
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import path from "path";
+import { FileManager } from "./server-file-manager";
+import { NeovimManager } from "./server-neovim-manager";
+
+describe("NeovimManager.setEvaluationMode", () => {
+  const workingDir = path.resolve("/work/set");
+
+  const setup = () => {
+    const fileManager = new FileManager(workingDir);
+    return { fileManager, manager: new NeovimManager(fileManager, workingDir) };
+  };
+
+  test("keys modes like the FileManager keys buffers", () => {
+    const { fileManager, manager } = setup();
+    const bufferPath = path.join(workingDir, "songs", "intro.strdl");
+    const file = fileManager.addBufferFile({ path: bufferPath, name: "intro.strdl", content: "", bufnr: 3 });
+
+    expect(manager.setEvaluationMode(bufferPath, "save").file).toBe(file.path);
+    expect(manager.setEvaluationMode("songs/intro.strdl", "live").file).toBe(file.path);
+  });
+
+  test("treats absolute and relative paths as the same buffer", () => {
+    const { manager } = setup();
+    manager.setEvaluationMode(path.join(workingDir, "a.strdl"), "save");
+    manager.setEvaluationMode("a.strdl", "live");
+
+    expect(manager.listEvaluationModes()).toEqual([expect.objectContaining({ file: "a.strdl", mode: "live" })]);
+
+    manager.setEvaluationMode(path.join(workingDir, "a.strdl"), "off");
+    expect(manager.listEvaluationModes()).toEqual([]);
+  });
+
+  test("rejects unknown modes", () => {
+    const { manager } = setup();
+    expect(() => manager.setEvaluationMode("a.strdl", "always" as any)).toThrow("Invalid evaluation mode");
+  });
+});
@@ -1,121 +1,251 @@
 import { spawn, ChildProcess } from "child_process";
-import { attach, NeovimClient } from "neovim";
+import { attach, NeovimClient, Buffer } from "neovim";
 import { createConnection } from "net";
+import type { Socket } from "net";
 import path from "path";
 import fs from "fs";
 import { FileManager } from "./server-file-manager";
+import type { FileInfo } from "./server-file-manager";
+import type { EventBus, StrudelEvent } from "./server-event-bus";
+import { SCRATCH_SOURCE } from "./server-history-manager";
+import type { EvaluationError } from "./server-playwright-manager";
+
+export type NeovimConnectionState = 'connected' | 'disconnected' | 'reconnecting';
+
+export interface NeovimTransition {
+  state: NeovimConnectionState;
+  at: string;
+  reason?: string;
+}
 
 export interface NeovimInstance {
+  name: string;
   process?: ChildProcess;
   client?: NeovimClient | null;
+  socket?: Socket;
   connected: boolean;
   address?: string;
   pid?: number;
+  cwd?: string;        // working directory the instance registered with
+  state?: NeovimConnectionState;
+  transitions?: NeovimTransition[];  // most recent last
+  lastError?: string;
+  lastErrorAt?: string;
+  reconnectAttempts?: number;
+  nextAttemptAt?: string;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
 }
 
 export interface NeovimConnectionOptions {
   timeout?: number;
   retryAttempts?: number;
-  preferredSockets?: string[];
+  address: string;     // socket path or host:port
+  name?: string;       // name of the connection; defaults to its address
+  activate?: boolean;  // make it the active instance; by default only when none is connected
+}
+
+// What a Neovim instance announces about itself when it registers
+export interface NeovimRegistration {
+  address: string;     // its v:servername
+  pid?: number;
+  cwd?: string;
+  name?: string;
+  activate?: boolean;
+}
+
+export interface NeovimInstanceInfo {
+  name: string;
+  address?: string;
+  pid?: number;
+  cwd?: string;
+  connected: boolean;
+  active: boolean;
+  state: NeovimConnectionState;
+  since?: string;            // when the current state was entered
+  lastError?: string;
+  lastErrorAt?: string;
+  reconnectAttempts: number;
+  nextAttemptAt?: string;
+  transitions: NeovimTransition[];
+}
+
+// Answers an rpcrequest() from Neovim; a thrown error is sent back as the request's error
+export type NeovimRequestHandler = (...args: any[]) => unknown;
+
+// When a buffer is evaluated without sending it: never, on every write, or shortly after every edit
+export type EvaluationMode = 'off' | 'save' | 'live';
+export type EvaluationOutcome = 'evaluated' | 'failed' | 'syntax-error';
+
+// Checks and evaluates a buffer's code for its evaluation mode; set by the server
+export type BufferEvaluator = (file: string, code: string) => Promise<EvaluationOutcome>;
+
+export interface EvaluationModeInfo {
+  file: string;
+  mode: EvaluationMode;
+  lastOutcome?: EvaluationOutcome;
+  lastEvaluatedAt?: string;
+}
+
+// How often connected instances are pinged, and how long a ping may take
+const HEALTH_CHECK_INTERVAL_MS = 5000;
+const HEALTH_CHECK_TIMEOUT_MS = 2000;
+// Reconnect backoff: doubles from the base delay up to the maximum
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+// State transitions kept per instance
+const MAX_TRANSITIONS = 20;
+// Pause in typing after which a live buffer is evaluated
+const LIVE_DEBOUNCE_MS = 500;
+const EVALUATION_MODES: EvaluationMode[] = ['off', 'save', 'live'];
+
+// Parse a "host:port" TCP address ("[::1]:6666" for IPv6); anything else is a Unix socket path
+export function parseTcpAddress(address: string): { host: string; port: number } | null {
+  const match = address.match(/^(?:\[([^\]]+)\]|([^/\s:]+)):(\d+)$/);
+  return match ? { host: match[1] ?? match[2], port: Number(match[3]) } : null;
+}
+
+// Open a connection to a Neovim RPC address
+function openSocket(address: string): Socket {
+  const tcp = parseTcpAddress(address);
+  return tcp ? createConnection(tcp.port, tcp.host) : createConnection(address);
+}
+
+// Diagnostics namespace evaluation errors are published in
+const DIAGNOSTICS_NAMESPACE = "strudel";
+
+// Replaces the namespace's diagnostics of one buffer, leaving other buffers alone; runs inside Neovim
+const SET_DIAGNOSTICS_LUA = `
+local namespace, bufnr, diagnostics = ...
+if bufnr > 0 and vim.api.nvim_buf_is_valid(bufnr) then
+  local ns = vim.api.nvim_create_namespace(namespace)
+  vim.diagnostic.reset(ns, bufnr)
+  vim.diagnostic.set(ns, bufnr, diagnostics)
+end
+`;
+
+// Extmark namespace and highlight group for the code that is sounding
+const HIGHLIGHT_NAMESPACE = "strudel_highlight";
+const HIGHLIGHT_GROUP = "StrudelActive";
+
+// Moves the highlights from the previous buffer to the current one; runs inside Neovim
+const SET_HIGHLIGHTS_LUA = `
+local namespace, group, previous, bufnr, ranges = ...
+local ns = vim.api.nvim_create_namespace(namespace)
+vim.api.nvim_set_hl(0, group, { link = "IncSearch", default = true })
+for _, buf in ipairs({ previous, bufnr }) do
+  if buf > 0 and vim.api.nvim_buf_is_valid(buf) then
+    vim.api.nvim_buf_clear_namespace(buf, ns, 0, -1)
+  end
+end
+if bufnr > 0 and vim.api.nvim_buf_is_valid(bufnr) then
+  for _, r in ipairs(ranges) do
+    pcall(vim.api.nvim_buf_set_extmark, bufnr, ns, r[1], r[2], { end_row = r[3], end_col = r[4], hl_group = group, strict = false })
+  end
+end
+`;
+
+// Buffers kept in sync line by line
+const SYNCED_BUFFER = /\.strdl$/;
+// rpcnotify method the buffer autocmds report on
+const BUFFER_NOTIFICATION = "strudel_buffer";
+
+// Reports buffers as they are read, created, renamed and wiped; runs inside Neovim
+const BUFFER_AUTOCMDS_LUA = `
+local channel, method = ...
+local group = vim.api.nvim_create_augroup("StrudelBufferSync", { clear = true })
+local function report(event)
+  return function(args)
+    vim.rpcnotify(channel, method, event, args.buf, vim.api.nvim_buf_get_name(args.buf))
+  end
+end
+vim.api.nvim_create_autocmd({ "BufReadPost", "BufNewFile" }, { group = group, pattern = "*.strdl", callback = report("opened") })
+vim.api.nvim_create_autocmd("BufFilePost", { group = group, callback = report("renamed") })
+vim.api.nvim_create_autocmd("BufWipeout", { group = group, callback = report("wiped") })
+vim.api.nvim_create_autocmd("BufWritePost", { group = group, pattern = "*.strdl", callback = report("saved") })
+vim.api.nvim_create_autocmd({ "TextChanged", "TextChangedI" }, { group = group, pattern = "*.strdl", callback = report("changed") })
+`;
+
+// Global variable that tells the plugin which channel to send requests on
+const CHANNEL_VARIABLE = "strudel_channel";
+
+// Hands the reply to a request the plugin sent as a notification back to it; runs inside Neovim
+const REPLY_LUA = `
+local id, reply = ...
+vim.api.nvim_exec_autocmds("User", { pattern = "StrudelReply", modeline = false, data = { id = id, reply = reply } })
+`;
+
+// Reply handle the client passes along with each request
+interface RpcResponse {
+  send(value: unknown, isError?: boolean): void;
+}
+
+interface AutoEvaluation extends EvaluationModeInfo {
+  timer?: ReturnType<typeof setTimeout>;
+  evaluating: boolean;
+  queued: boolean;     // edited again while evaluating
+  lastCode?: string;
+}
+
+interface SyncedBuffer {
+  client: NeovimClient;
+  buffer: Buffer;
+  path: string;        // FileManager key
+  lines: string[];
+  onLines: Function;
+  onDetach: Function;
 }
 
 export class NeovimManager {
-  private neovim: NeovimInstance = { connected: false };
+  private instances: Map<string, NeovimInstance> = new Map();
+  private activeName?: string;
   private fileManager: FileManager;
   private workingDir: string;
-  private socketFiles: string[] = [];
+  private events?: EventBus;
+  private highlightedBufnr = -1;
+  private pendingHighlight?: { source?: string; ranges: { line: number; column: number; endLine: number; endColumn: number }[] };
+  private highlighting = false;
+  private syncedBuffers: Map<number, SyncedBuffer> = new Map();
+  private healthTimer?: ReturnType<typeof setInterval>;
+  private requestHandlers: Map<string, NeovimRequestHandler> = new Map();
+  private autoEvaluations: Map<string, AutoEvaluation> = new Map();
+  private evaluator?: BufferEvaluator;
 
-  constructor(fileManager: FileManager, workingDir: string = process.cwd()) {
+  constructor(fileManager: FileManager, workingDir: string = process.cwd(), events?: EventBus) {
     this.fileManager = fileManager;
     this.workingDir = workingDir;
-    this.neovim = { connected: false };
+    this.events = events;
+
+    // Show evaluation errors in the buffer they came from
+    this.events?.subscribe((event) => {
+      if (event.type === "code:diagnostics") {
+        const { source, success, errors } = (event as StrudelEvent<"code:diagnostics">).data;
+        this.publishDiagnostics(source, success ? [] : errors);
+      } else if (event.type === "playback:highlight") {
+        this.pendingHighlight = (event as StrudelEvent<"playback:highlight">).data;
+        if (!this.highlighting) void this.flushHighlights();
+      }
+    });
+  }
 
-    this.findSocketFiles = this.findSocketFiles;
-    this.testSocketConnection.bind(this);
+  // The instance buffer reads, diagnostics and highlights go to
+  private get neovim(): NeovimInstance {
+    return (this.activeName && this.instances.get(this.activeName)) || { name: "", connected: false };
   }
 
   private async printConnectionDiagnostics(): Promise<void> {
     console.log("\n🔍 CONNECTION DIAGNOSTICS:");
     console.log("=".repeat(40));
-
-    // Check socket directory contents
-    try {
-      const socketFiles = fs.readdirSync('/tmp').filter(f =>
-        f.includes('nvim') || f.includes('strudel')
-      );
-      console.log("📁 Relevant files in /tmp:", socketFiles);
-    } catch {
-      console.log("⚠️  Could not scan /tmp directory");
-    }
-
     console.log("💻 System:", process.platform);
     console.log("👤 User:", process.env.USER || 'unknown');
     console.log("=".repeat(40));
   }
 
-  // Find existing Neovim socket files
-  private async findSocketFiles(preferredSockets: string[] = []): Promise<string[]> {
-    const possibleSockets = [
-      ...preferredSockets,
-      "/tmp/strudel-nvim-socket",
-      "/tmp/nvim-socket",
-      "/tmp/nvim",
-      ...this.findTmpNvimSockets(),
-      process.env.NVIM_LISTEN_ADDRESS
-    ].filter(Boolean) as string[];
-
-    // Remove duplicates
-    const uniqueSockets = [...new Set(possibleSockets)];
-    const validSockets: string[] = [];
-
-    for (const socketPath of uniqueSockets) {
-      try {
-        // Check if socket file exists and is accessible
-        if (fs.existsSync(socketPath)) {
-          const stat = fs.statSync(socketPath);
-          if (stat.isSocket()) {
-            console.log(`✅ Found valid socket: ${socketPath}`);
-            validSockets.push(socketPath);
-          }
-        }
-      } catch (error) {
-        console.log(`❌ Invalid socket ${socketPath}:`, error);
-      }
-    }
-
-    return validSockets;
-  }
-
-  // Find socket files in /tmp that match Neovim patterns
-  private findTmpNvimSockets(): string[] {
-    const sockets: string[] = [];
-    try {
-      const tmpFiles = fs.readdirSync('/tmp');
-      for (const file of tmpFiles) {
-        if (file.startsWith('nvim') && !file.includes('.')) {
-          const fullPath = path.join('/tmp', file);
-          try {
-            const stat = fs.statSync(fullPath);
-            if (stat.isSocket()) {
-              sockets.push(fullPath);
-            }
-          } catch (error) {
-            // Skip invalid files
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error scanning /tmp for socket files:", error);
-    }
-    return sockets;
-  }
-
   // Test socket connection with proper error handling
   private async testSocketConnection(socketPath: string, timeout: number = 2000): Promise<boolean> {
     return new Promise((resolve) => {
       try {
         console.log(`🧪 Testing socket connection: ${socketPath}`);
-        const socket = createConnection(socketPath);
+        const socket = openSocket(socketPath);
 
         const timeoutId = setTimeout(() => {
           socket.destroy();
@@ -145,90 +275,109 @@ export class NeovimManager {
   }
 
   // Main connection method - simplified and more reliable
-  async connectToNeovim(options: NeovimConnectionOptions = {}): Promise<boolean> {
+  async connectToNeovim(options: NeovimConnectionOptions): Promise<boolean> {
     const {
       timeout = 5000,
       retryAttempts = 3,
-      preferredSockets = ['/tmp/strudel-nvim-socket']
+      address: socketPath
     } = options;
 
     try {
       console.log("🚀 Starting Neovim connection process...");
-      console.log(`🎯 Target socket: ${preferredSockets[0]}`);
+      console.log(`🎯 Target socket: ${socketPath}`);
       console.log(`⏱️  Timeout: ${timeout}ms, Retries: ${retryAttempts}`);
 
-      // Your existing socket discovery logic, but with enhanced logging
-      const socketFiles = await this.findSocketFiles(preferredSockets);
+      const existing = [...this.instances.values()].find(instance => instance.connected && instance.address === socketPath);
+      if (existing) {
+        console.log(`✅ Already connected to ${socketPath} as "${existing.name}"`);
+        if (options.activate) await this.setActive(existing.name);
+        return true;
+      }
+
+      console.log(`🔗 Attempting connection to: ${socketPath}`);
 
-      if (socketFiles.length === 0) {
-        console.log("❌ No valid socket files discovered");
-        await this.printConnectionDiagnostics();
+      // Test if socket is responsive
+      const isResponsive = await this.testSocketConnection(socketPath, timeout);
+      if (!isResponsive) {
+        console.log(`❌ Socket not responsive: ${socketPath}`);
         return false;
       }
 
-      console.log(`✅ Found ${socketFiles.length} socket(s) to try: ${socketFiles.join(', ')}`);
+      // Try to establish RPC connection
+      let client: NeovimClient | null = null;
+      let socket: Socket | undefined;
+      let connectionSuccess = false;
 
-      for (const socketPath of socketFiles) {
-        console.log(`🔗 Attempting connection to: ${socketPath}`);
+      for (let attempt = 1; attempt <= retryAttempts; attempt++) {
+        try {
+          console.log(`🔄 Connection attempt ${attempt}/${retryAttempts} to ${socketPath}`);
 
-        // Test if socket is responsive
-        const isResponsive = await this.testSocketConnection(socketPath, timeout);
-        if (!isResponsive) {
-          console.log(`❌ Socket not responsive: ${socketPath}`);
-          continue;
-        }
+          socket = openSocket(socketPath);
+          client = attach({ reader: socket, writer: socket });
 
-        // Try to establish RPC connection
-        let client: NeovimClient | null = null;
-        let connectionSuccess = false;
-
-        for (let attempt = 1; attempt <= retryAttempts; attempt++) {
-          try {
-            console.log(`🔄 Connection attempt ${attempt}/${retryAttempts} to ${socketPath}`);
-
-            const socket = createConnection(socketPath);
-            client = attach({ reader: socket, writer: socket });
-
-            // Test the RPC connection with a simple command
-            await client.command('echo "Connected from external server!"');
-
-            connectionSuccess = true;
-            console.log(`✅ RPC connection established to: ${socketPath}`);
-            break;
-
-          } catch (error) {
-            console.log(`❌ RPC attempt ${attempt} failed:`, error);
-            if (client) {
-              try {
-                await client.quit();
-              } catch (e) {
-                // Ignore cleanup errors
-              }
-              client = null;
-            }
+          // Test the RPC connection with a simple command
+          await client.command('echo "Connected from external server!"');
+
+          connectionSuccess = true;
+          console.log(`✅ RPC connection established to: ${socketPath}`);
+          break;
 
-            if (attempt < retryAttempts) {
-              await new Promise(resolve => setTimeout(resolve, 1000));
+        } catch (error) {
+          console.log(`❌ RPC attempt ${attempt} failed:`, error);
+          if (client) {
+            try {
+              await client.quit();
+            } catch (e) {
+              // Ignore cleanup errors
             }
+            client = null;
+          }
+
+          if (attempt < retryAttempts) {
+            await new Promise(resolve => setTimeout(resolve, 1000));
           }
         }
+      }
 
-        if (connectionSuccess && client) {
-          this.neovim = {
-            client,
-            connected: true,
-            address: socketPath
-          };
+      if (connectionSuccess && client && socket) {
+        const name = options.name ?? socketPath;
+        const previous = this.instances.get(name);
+        if (previous?.connected) {
+          this.dropConnection(previous);
+        }
+
+        // A reconnect keeps the history of the instance it replaces
+        clearTimeout(previous?.reconnectTimer);
+        const instance: NeovimInstance = {
+          name,
+          client,
+          socket,
+          connected: true,
+          address: socketPath,
+          transitions: previous?.transitions ?? [],
+          pid: previous?.pid,
+          cwd: previous?.cwd,
+          lastError: previous?.lastError,
+          lastErrorAt: previous?.lastErrorAt
+        };
+        this.setState(instance, 'connected', previous ? "reconnected" : "connected");
+        this.instances.set(name, instance);
+        socket.on('close', () => this.handleConnectionLost(instance, "connection closed"));
+        this.startHealthChecks();
 
-          console.log(`🎉 Successfully connected to Neovim via: ${socketPath}`);
+        console.log(`🎉 Successfully connected to Neovim "${name}" via: ${socketPath}`);
+        this.events?.emit("neovim:connected", { name, address: socketPath });
 
-          // Scan buffers after successful connection
-          await this.scanNeovimBuffers();
-          return true;
+        // Follow its buffers; the active instance's are scanned into the FileManager
+        await this.trackBuffers(client);
+        await this.serveRequests(client);
+        if (options.activate ?? (!this.neovim.connected || this.activeName === name)) {
+          await this.setActive(name);
         }
+        return true;
       }
 
-      console.log("❌ Could not establish connection to any Neovim socket");
+      console.log(`❌ Could not establish connection to Neovim at ${socketPath}`);
       console.log("💡 Troubleshooting:");
       console.log("   1. Ensure Neovim is running with socket server");
       console.log("   2. Check socket permissions");
@@ -242,6 +391,204 @@ export class NeovimManager {
     }
   }
 
+  // Connect to an instance that announced itself, under its own name or its address
+  async register(registration: NeovimRegistration): Promise<boolean> {
+    const { address, pid, cwd, activate } = registration;
+    const name = registration.name
+      ?? [...this.instances.values()].find(instance => instance.address === address)?.name
+      ?? address;
+
+    // Another editor may have taken over a name or address the old one left without unregistering
+    for (const stale of [...this.instances.values()]) {
+      if ((stale.name === name && stale.address !== address) || (stale.name !== name && stale.address === address)) {
+        await this.disconnect(stale.name);
+      }
+    }
+
+    const success = await this.connectToNeovim({ address, name, activate });
+    const instance = this.instances.get(name);
+    if (success && instance) {
+      instance.pid = pid;
+      instance.cwd = cwd;
+      console.log(`📝 Registered Neovim "${name}" (pid ${pid ?? "?"}, ${cwd ?? "unknown cwd"})`);
+    }
+    return success;
+  }
+
+  // Forget an instance that is going away, by name or address, without trying to reconnect
+  async unregister(target: { name?: string; address?: string }): Promise<boolean> {
+    const instance = [...this.instances.values()].find(instance =>
+      (target.name !== undefined && instance.name === target.name)
+      || (target.address !== undefined && instance.address === target.address));
+    if (!instance) {
+      return false;
+    }
+
+    console.log(`👋 Neovim "${instance.name}" unregistered`);
+    return this.disconnect(instance.name);
+  }
+
+  // Make an instance the one buffer reads, diagnostics and highlights go to, and load its buffers
+  async setActive(name: string): Promise<void> {
+    const instance = this.instances.get(name);
+    if (!instance) {
+      throw new Error(`Unknown Neovim instance: ${name}`);
+    }
+    if (!instance.connected) {
+      throw new Error(`Neovim instance is not connected: ${name}`);
+    }
+
+    if (this.activeName !== name) {
+      await this.detachAllBuffers();
+      this.highlightedBufnr = -1;
+      this.activeName = name;
+      console.log(`🎯 Active Neovim instance: ${name}`);
+    }
+    await this.scanNeovimBuffers();
+  }
+
+  // Close a connection and forget the instance
+  async disconnect(name: string): Promise<boolean> {
+    const instance = this.instances.get(name);
+    if (!instance) {
+      return false;
+    }
+
+    this.instances.delete(name);
+    clearTimeout(instance.reconnectTimer);
+    this.dropConnection(instance, "disconnected");
+    if (this.activeName === name) {
+      await this.activateFallback();
+    }
+    return true;
+  }
+
+  // The socket closed or stopped answering: keep the instance listed and try to get it back
+  private handleConnectionLost(instance: NeovimInstance, error: string): void {
+    if (!instance.connected) return;
+
+    console.log(`🔌 Neovim "${instance.name}" disconnected: ${error}`);
+    instance.lastError = error;
+    instance.lastErrorAt = new Date().toISOString();
+    this.dropConnection(instance, error);
+    if (this.activeName === instance.name) {
+      this.activateFallback().catch(error => console.error("❌ Failed to switch Neovim instance:", error));
+    }
+    this.scheduleReconnect(instance);
+  }
+
+  // Record a state transition of an instance
+  private setState(instance: NeovimInstance, state: NeovimConnectionState, reason?: string): void {
+    if (instance.state === state) return;
+
+    instance.state = state;
+    instance.transitions = [...(instance.transitions ?? []), { state, at: new Date().toISOString(), reason }]
+      .slice(-MAX_TRANSITIONS);
+  }
+
+  // Try to reconnect after a delay that doubles with every failed attempt, as soon as the socket is back
+  private scheduleReconnect(instance: NeovimInstance): void {
+    const address = instance.address;
+    if (!address) return;
+
+    const attempt = (instance.reconnectAttempts ?? 0) + 1;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    instance.reconnectAttempts = attempt;
+    instance.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    this.setState(instance, 'reconnecting');
+
+    clearTimeout(instance.reconnectTimer);
+    instance.reconnectTimer = setTimeout(async () => {
+      // Removed or replaced in the meantime
+      if (this.instances.get(instance.name) !== instance) return;
+
+      const available = parseTcpAddress(address)
+        ? await this.testSocketConnection(address, HEALTH_CHECK_TIMEOUT_MS)
+        : fs.existsSync(address) && fs.statSync(address).isSocket();
+      const reconnected = available
+        && await this.connectToNeovim({ address, name: instance.name, retryAttempts: 1 });
+
+      if (!reconnected && this.instances.get(instance.name) === instance) {
+        this.scheduleReconnect(instance);
+      }
+    }, delay);
+  }
+
+  // Ping every connected instance; one that does not answer in time is treated as gone
+  private startHealthChecks(): void {
+    if (this.healthTimer) return;
+
+    this.healthTimer = setInterval(() => {
+      for (const instance of this.instances.values()) {
+        const client = instance.client;
+        if (!instance.connected || !client) continue;
+
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error(`no answer within ${HEALTH_CHECK_TIMEOUT_MS}ms`)), HEALTH_CHECK_TIMEOUT_MS);
+        });
+        Promise.race([client.request('nvim_get_mode', []), timeout])
+          .catch(error => {
+            if (instance.client === client) {
+              this.handleConnectionLost(instance, `health check failed: ${error?.message ?? error}`);
+            }
+          })
+          .finally(() => clearTimeout(timeoutId));
+      }
+    }, HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  // Mark an instance disconnected and close its socket
+  private dropConnection(instance: NeovimInstance, reason: string = "replaced"): void {
+    if (this.activeName === instance.name) {
+      for (const bufnr of [...this.syncedBuffers.keys()]) {
+        this.forgetBuffer(bufnr);
+      }
+    }
+
+    const wasConnected = instance.connected;
+    instance.connected = false;
+    this.setState(instance, 'disconnected', reason);
+    instance.client = null;
+    instance.socket?.destroy();
+    instance.socket = undefined;
+    if (wasConnected) {
+      this.events?.emit("neovim:disconnected", { name: instance.name, address: instance.address, reason });
+    }
+  }
+
+  // After the active instance went away, continue with another connected one
+  private async activateFallback(): Promise<void> {
+    const next = [...this.instances.values()].find(instance => instance.connected);
+    if (next) {
+      await this.setActive(next.name);
+    } else {
+      this.activeName = undefined;
+    }
+  }
+
+  // List every known instance
+  listInstances(): NeovimInstanceInfo[] {
+    return [...this.instances.values()].map(instance => {
+      const transitions = instance.transitions ?? [];
+      return {
+        name: instance.name,
+        address: instance.address,
+        pid: instance.pid,
+        cwd: instance.cwd,
+        connected: instance.connected,
+        active: instance.name === this.activeName,
+        state: instance.state ?? (instance.connected ? 'connected' : 'disconnected'),
+        since: transitions[transitions.length - 1]?.at,
+        lastError: instance.lastError,
+        lastErrorAt: instance.lastErrorAt,
+        reconnectAttempts: instance.reconnectAttempts ?? 0,
+        nextAttemptAt: instance.state === 'reconnecting' ? instance.nextAttemptAt : undefined,
+        transitions
+      };
+    });
+  }
+
   // Enhanced buffer scanning with better error handling
   async scanNeovimBuffers(): Promise<void> {
     if (!this.neovim.connected || !this.neovim.client) {
@@ -256,6 +603,7 @@ export class NeovimManager {
       let bufferCount = 0;
 
       // Clear existing files first
+      await this.detachAllBuffers();
       this.fileManager.clear();
 
       for (const buffer of buffers) {
@@ -283,10 +631,14 @@ export class NeovimManager {
             bufnr: buffer.id
           };
 
-          this.fileManager.addBufferFile(bufferData);
+          const file = this.fileManager.addBufferFile(bufferData);
           bufferCount++;
           console.log(`📁 Added buffer: ${name}`);
 
+          if (SYNCED_BUFFER.test(name)) {
+            await this.attachBuffer(buffer, file);
+          }
+
         } catch (bufferError) {
           console.error(`❌ Error processing buffer ${buffer.id}:`, bufferError);
         }
@@ -300,6 +652,255 @@ export class NeovimManager {
     }
   }
 
+  // Follow buffers as they are opened, renamed and wiped, through autocmds that notify this channel
+  private async trackBuffers(client: NeovimClient): Promise<void> {
+    try {
+      client.on('notification', (method: string, args: any[]) => {
+        // Only the active instance's buffers are tracked
+        if (method !== BUFFER_NOTIFICATION || client !== this.neovim.client) return;
+        const [event, bufnr, name] = args as [string, number, string];
+        this.handleBufferEvent(event, bufnr, name).catch(error => {
+          console.error(`❌ Failed to handle buffer ${event} (${bufnr}):`, error);
+        });
+      });
+      await client.lua(BUFFER_AUTOCMDS_LUA, [await client.channelId, BUFFER_NOTIFICATION]);
+      console.log("🔗 Following .strdl buffers");
+    } catch (error) {
+      console.error("❌ Could not set up buffer tracking:", error);
+    }
+  }
+
+  // Set what evaluates buffers whose mode asks for it
+  setEvaluator(evaluator?: BufferEvaluator): void {
+    this.evaluator = evaluator;
+  }
+
+  // Evaluate a buffer on save, after a pause in typing, or only when sent ('off')
+  setEvaluationMode(file: string, mode: EvaluationMode): EvaluationModeInfo {
+    if (!EVALUATION_MODES.includes(mode)) {
+      throw new Error(`Invalid evaluation mode: ${mode} (use ${EVALUATION_MODES.join(', ')})`);
+    }
+
+    // Same key the FileManager tracks the buffer by, whether the path comes in absolute or relative
+    const key = path.relative(this.workingDir, path.resolve(this.workingDir, file));
+    let auto = this.autoEvaluations.get(key);
+    clearTimeout(auto?.timer);
+    if (mode === 'off') {
+      this.autoEvaluations.delete(key);
+      return { file: key, mode };
+    }
+    if (!auto) {
+      auto = { file: key, mode, evaluating: false, queued: false };
+      this.autoEvaluations.set(key, auto);
+    }
+
+    // Live mode starts from the buffer as it is, without evaluating it right away
+    auto.mode = mode;
+    auto.lastCode = [...this.syncedBuffers.values()].find(candidate => candidate.path === key)?.lines.join('\n');
+    console.log(`⚡ Evaluation mode of ${key}: ${mode}`);
+    return this.describeEvaluation(auto);
+  }
+
+  // List the buffers that are evaluated automatically
+  listEvaluationModes(): EvaluationModeInfo[] {
+    return [...this.autoEvaluations.values()].map(auto => this.describeEvaluation(auto));
+  }
+
+  private describeEvaluation(auto: AutoEvaluation): EvaluationModeInfo {
+    return { file: auto.file, mode: auto.mode, lastOutcome: auto.lastOutcome, lastEvaluatedAt: auto.lastEvaluatedAt };
+  }
+
+  // A save evaluates a 'save' buffer at once; an edit evaluates a 'live' buffer once typing pauses
+  private scheduleEvaluation(file: string, event: 'saved' | 'changed'): void {
+    const auto = this.autoEvaluations.get(file);
+    if (!auto || auto.mode !== (event === 'saved' ? 'save' : 'live')) return;
+
+    clearTimeout(auto.timer);
+    auto.timer = setTimeout(() => void this.runEvaluation(auto), event === 'saved' ? 0 : LIVE_DEBOUNCE_MS);
+  }
+
+  // Evaluate the buffer's current text; edits made meanwhile are evaluated once this one is done
+  private async runEvaluation(auto: AutoEvaluation): Promise<void> {
+    const synced = [...this.syncedBuffers.values()].find(candidate => candidate.path === auto.file);
+    if (!synced || !this.evaluator || this.autoEvaluations.get(auto.file) !== auto) return;
+    if (auto.evaluating) {
+      auto.queued = true;
+      return;
+    }
+
+    const code = synced.lines.join('\n');
+    // Typing that ends where it started (an undo, say) changes nothing
+    if (auto.mode === 'live' && code === auto.lastCode) return;
+
+    auto.evaluating = true;
+    auto.lastCode = code;
+    try {
+      auto.lastOutcome = await this.evaluator(auto.file, code);
+    } catch (error) {
+      console.error(`❌ Automatic evaluation of ${auto.file} failed:`, error);
+      auto.lastOutcome = 'failed';
+    } finally {
+      auto.evaluating = false;
+      auto.lastEvaluatedAt = new Date().toISOString();
+    }
+
+    if (auto.queued) {
+      auto.queued = false;
+      await this.runEvaluation(auto);
+    }
+  }
+
+  // Answer rpcrequest(vim.g.strudel_channel, method, ...) from any connected instance
+  setRequestHandler(method: string, handler: NeovimRequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  private async serveRequests(client: NeovimClient): Promise<void> {
+    try {
+      client.on('request', (method: string, args: any[], response: RpcResponse) => {
+        void this.handleRequest(method, args, response);
+      });
+      // The plugin sends its requests as notifications with an id first, so Neovim does not
+      // block on rpcrequest() while a send preloads samples; the reply goes back as an autocmd
+      client.on('notification', (method: string, args: any[]) => {
+        if (!this.requestHandlers.has(method)) return;
+        const [id, ...rest] = args;
+        void this.handleRequest(method, rest, {
+          send: (value, isError) => {
+            const reply = isError ? { success: false, error: value } : value;
+            client.lua(REPLY_LUA, [id, reply]).catch(error => {
+              console.error(`❌ Could not reply to ${method}:`, error);
+            });
+          }
+        });
+      });
+      await client.setVar(CHANNEL_VARIABLE, await client.channelId);
+      console.log(`📡 Serving ${[...this.requestHandlers.keys()].join(', ')} to Neovim`);
+    } catch (error) {
+      console.error("❌ Could not set up RPC requests:", error);
+    }
+  }
+
+  private async handleRequest(method: string, args: any[], response: RpcResponse): Promise<void> {
+    const handler = this.requestHandlers.get(method);
+    if (!handler) {
+      response.send(`Unknown method: ${method}`, true);
+      return;
+    }
+
+    try {
+      // Same shape as the HTTP replies: msgpack would send undefined fields as nil, which Lua sees as vim.NIL
+      const reply = await handler(...args);
+      response.send(reply === undefined ? null : JSON.parse(JSON.stringify(reply)));
+    } catch (error: any) {
+      console.error(`❌ RPC ${method} failed:`, error);
+      response.send(error?.message ?? String(error), true);
+    }
+  }
+
+  private async handleBufferEvent(event: string, bufnr: number, name: string): Promise<void> {
+    const synced = this.syncedBuffers.get(bufnr);
+
+    if (event === "saved" || event === "changed") {
+      if (synced) this.scheduleEvaluation(synced.path, event);
+      return;
+    }
+
+    if (event === "wiped") {
+      if (!synced) return;
+      await this.detachBuffer(bufnr);
+      this.fileManager.removeFile(synced.path);
+      return;
+    }
+
+    // Renamed: the file is tracked under its new path from now on
+    if (synced) {
+      if (event === "renamed") {
+        await this.detachBuffer(bufnr);
+        this.fileManager.removeFile(synced.path);
+      } else {
+        return;
+      }
+    }
+    if (!SYNCED_BUFFER.test(name) || !this.neovim.client) return;
+
+    const buffer = (await this.neovim.client.buffers).find(candidate => candidate.id === bufnr);
+    if (buffer) {
+      // The content is read once the buffer is attached
+      const file = this.fileManager.addBufferFile({ path: name, name: path.basename(name), content: "", bufnr });
+      await this.attachBuffer(buffer, file);
+    }
+  }
+
+  // Attach to a buffer so every change arrives as a line update. The lines are read once
+  // attached, so edits made before the read are in them and later ones arrive as updates.
+  private async attachBuffer(buffer: Buffer, file: FileInfo): Promise<boolean> {
+    const client = this.neovim.client;
+    if (!client || this.syncedBuffers.has(buffer.id)) return false;
+
+    const synced: SyncedBuffer = {
+      client,
+      buffer,
+      path: file.path,
+      lines: file.content.split('\n'),
+      onLines: (_buffer: Buffer, _tick: number, first: number, last: number, data: string[]) => {
+        synced.lines.splice(first, last === -1 ? synced.lines.length : last - first, ...data);
+        this.fileManager.updateBufferContent(synced.path, synced.lines.join('\n'));
+      },
+      // Unloaded or reloaded; the autocmds attach it again when it is read back in
+      onDetach: () => {
+        this.forgetBuffer(buffer.id);
+      }
+    };
+
+    try {
+      // Neovim refuses to attach unloaded buffers, and listen() would only find out in the background
+      if (!(await buffer.loaded)) throw new Error("buffer is not loaded");
+
+      // listen() sends nvim_buf_attach with the first handler; the second one shares that attachment
+      this.syncedBuffers.set(buffer.id, synced);
+      buffer.listen('lines', synced.onLines);
+      buffer.listen('detach', synced.onDetach);
+
+      synced.lines = await buffer.lines;
+      this.fileManager.updateBufferContent(synced.path, synced.lines.join('\n'));
+      console.log(`🔗 Syncing buffer ${buffer.id}: ${file.path}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Could not attach to buffer ${buffer.id}:`, error);
+      this.forgetBuffer(buffer.id);
+      return false;
+    }
+  }
+
+  private async detachBuffer(bufnr: number): Promise<void> {
+    const synced = this.forgetBuffer(bufnr);
+    if (!synced) return;
+
+    try {
+      await synced.buffer.request('nvim_buf_detach', [synced.buffer]);
+    } catch {
+      // Already gone with the buffer
+    }
+  }
+
+  private async detachAllBuffers(): Promise<void> {
+    for (const bufnr of [...this.syncedBuffers.keys()]) {
+      await this.detachBuffer(bufnr);
+    }
+  }
+
+  // Stop handling a buffer's updates; returns what was synced
+  private forgetBuffer(bufnr: number): SyncedBuffer | undefined {
+    const synced = this.syncedBuffers.get(bufnr);
+    if (!synced) return undefined;
+
+    this.syncedBuffers.delete(bufnr);
+    synced.client.detachBuffer(synced.buffer, 'lines', synced.onLines);
+    synced.client.detachBuffer(synced.buffer, 'detach', synced.onDetach);
+    return synced;
+  }
+
   // Get current buffer with error handling
   async getCurrentBuffer(): Promise<{ content: string; path: string } | null> {
     if (!this.neovim.connected || !this.neovim.client) {
@@ -339,6 +940,65 @@ export class NeovimManager {
     }
   }
 
+  // Publish evaluation errors as diagnostics of a tracked file's buffer, replacing the previous ones.
+  // Without errors that buffer's diagnostics are cleared; other buffers keep theirs.
+  async publishDiagnostics(source: string | undefined, errors: EvaluationError[]): Promise<boolean> {
+    if (!this.neovim.connected || !this.neovim.client) {
+      return false;
+    }
+
+    try {
+      const bufnr = await this.findBufnr(source);
+      if (bufnr <= 0) return true;
+
+      const diagnostics = errors.map(error => ({
+        lnum: Math.max((error.line ?? 1) - 1, 0),
+        col: Math.max((error.column ?? 1) - 1, 0),
+        severity: 1, // vim.diagnostic.severity.ERROR
+        source: "strudel",
+        message: error.message
+      }));
+
+      await this.neovim.client.lua(SET_DIAGNOSTICS_LUA, [DIAGNOSTICS_NAMESPACE, bufnr, diagnostics]);
+      console.log(`🩺 Published ${diagnostics.length} diagnostic(s) to buffer ${bufnr} (${source})`);
+      return true;
+    } catch (error) {
+      console.error("❌ Failed to publish diagnostics:", error);
+      return false;
+    }
+  }
+
+  // Buffer number of a tracked file, asking Neovim for files that were not loaded from a buffer; -1 when not open
+  // or when the code came from no file at all
+  private async findBufnr(source?: string): Promise<number> {
+    if (!source || source === SCRATCH_SOURCE || !this.neovim.client) return -1;
+    return this.fileManager.getFile(source)?.bufnr
+      ?? await this.neovim.client.call('bufnr', [path.resolve(this.workingDir, source)]);
+  }
+
+  // Apply the latest sounding locations as extmark highlights. Frames that arrive while
+  // Neovim is still busy with the previous one are dropped in favour of the newest.
+  private async flushHighlights(): Promise<void> {
+    this.highlighting = true;
+    try {
+      while (this.pendingHighlight) {
+        const { source, ranges } = this.pendingHighlight;
+        this.pendingHighlight = undefined;
+        if (!this.neovim.connected || !this.neovim.client) continue;
+
+        const bufnr = ranges.length > 0 ? await this.findBufnr(source) : -1;
+        // Extmarks take 0-based rows and columns
+        const marks = ranges.map(range => [range.line - 1, range.column - 1, range.endLine - 1, range.endColumn - 1]);
+        await this.neovim.client.lua(SET_HIGHLIGHTS_LUA, [HIGHLIGHT_NAMESPACE, HIGHLIGHT_GROUP, this.highlightedBufnr, bufnr, marks]);
+        this.highlightedBufnr = bufnr;
+      }
+    } catch (error) {
+      console.error("❌ Failed to highlight active haps:", error);
+    } finally {
+      this.highlighting = false;
+    }
+  }
+
   // Status and getters
   isConnected(): boolean {
     return this.neovim.connected;
@@ -347,8 +1007,12 @@ export class NeovimManager {
   getStatus() {
     return {
       connected: this.neovim.connected,
+      active: this.activeName,
       address: this.neovim.address,
-      hasClient: !!this.neovim.client
+      hasClient: !!this.neovim.client,
+      syncedBuffers: this.syncedBuffers.size,
+      evaluationModes: this.listEvaluationModes(),
+      instances: this.listInstances()
     };
   }
 
@@ -360,16 +1024,25 @@ export class NeovimManager {
   async cleanup(): Promise<void> {
     console.log("🧹 Cleaning up Neovim connections...");
 
-    if (this.neovim.client) {
+    clearInterval(this.healthTimer);
+    this.healthTimer = undefined;
+
+    for (const instance of this.instances.values()) {
+      clearTimeout(instance.reconnectTimer);
       try {
-        // Don't quit the Neovim instance, just disconnect
-        this.neovim.client = null;
+        // Don't quit the Neovim instances, just disconnect
+        this.dropConnection(instance, "cleanup");
       } catch (error) {
         console.error("Error during client cleanup:", error);
       }
     }
 
-    this.neovim = { connected: false };
+    for (const auto of this.autoEvaluations.values()) {
+      clearTimeout(auto.timer);
+    }
+    this.syncedBuffers.clear();
+    this.instances.clear();
+    this.activeName = undefined;
     console.log("✅ Neovim manager cleanup completed");
   }
 }
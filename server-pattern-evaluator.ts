@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Pattern queries without audio, evaluated in the browser's shadow page.
+ * @author Zedro
+ * @module
+ *
+ * @requires @strudel/core
+ * @requires @strudel/mini
+ * @requires @strudel/tonal
+ */
+
+import type { PlaywrightManager } from "./server-playwright-manager";
+
+export interface HapSpan {
+  begin: number;
+  end: number;
+}
+
+export interface SourceLocation {
+  start: number;  // character offset into the code
+  end: number;
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+export interface QueriedHap {
+  whole?: HapSpan; // undefined for continuous (signal) haps
+  part: HapSpan;
+  value: unknown;
+  locations: SourceLocation[];
+}
+
+export interface PatternQueryResult {
+  success: boolean;
+  from: number;
+  to: number;
+  cps: number;
+  haps: QueriedHap[];
+  error?: string;
+}
+
+// Refuse huge spans: every hap is serialized into the response
+export const MAX_QUERY_CYCLES = 64;
+
+/**
+* Convert a character offset into a 1-based line/column position.
+*
+* @param {string} code - Source code.
+* @param {number} offset - Character offset into the code.
+* @returns {{ line: number, column: number }} - Position of the offset.
+*/
+export function offsetToPosition(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, Math.max(0, offset));
+  const lines = before.split("\n");
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1
+  };
+}
+
+/**
+* @class PatternEvaluator
+* @description Queries Strudel patterns without playing them. The code is evaluated in the
+* browser's muted shadow page, never in the server process: submitted code must not reach Bun's APIs.
+*/
+export class PatternEvaluator {
+  private playwrightManager: PlaywrightManager;
+  private scope?: Promise<Set<string>>;
+
+  /**
+  * @constructor
+  * @description Constructs a new PatternEvaluator instance.
+  *
+  * @param {PlaywrightManager} playwrightManager - Runs the queries in its shadow page.
+  */
+  constructor(playwrightManager: PlaywrightManager) {
+    this.playwrightManager = playwrightManager;
+  }
+
+  /**
+  * List the names Strudel code can refer to: the evaluation scope and the JavaScript globals.
+  * Loads the Strudel modules into the server once; no submitted code runs here.
+  * @public
+  * @async
+  *
+  * @returns {Promise<Set<string>>} - Global names once the Strudel modules are loaded.
+  */
+  async scopeNames(): Promise<Set<string>> {
+    if (!this.scope) {
+      this.scope = (async () => {
+        const core: any = await import("@strudel/core");
+        const mini = await import("@strudel/mini");
+        const tonal = await import("@strudel/tonal");
+        await core.evalScope(core, mini, tonal);
+        return new Set(Object.getOwnPropertyNames(globalThis));
+      })();
+    }
+    return this.scope;
+  }
+
+  /**
+  * Evaluate code and query its haps between two cycle positions.
+  * @public
+  * @async
+  *
+  * @param {string} code - Strudel code.
+  * @param {number} from - First cycle of the span.
+  * @param {number} to - End cycle of the span (exclusive).
+  * @returns {Promise<PatternQueryResult>} - The haps in the span, or the evaluation error.
+  */
+  async query(code: string, from: number = 0, to: number = 1): Promise<PatternQueryResult> {
+    const result: PatternQueryResult = { success: false, from, to, cps: 0, haps: [] };
+
+    if (!(to > from) || to - from > MAX_QUERY_CYCLES) {
+      result.error = `Cycle range must be increasing and span at most ${MAX_QUERY_CYCLES} cycles`;
+      return result;
+    }
+
+    try {
+      const { cps, haps } = await this.playwrightManager.queryPattern(code, from, to);
+      result.haps = haps.map((hap): QueriedHap => ({
+        ...hap,
+        locations: hap.locations.map(({ start, end }) => ({ start, end, ...offsetToPosition(code, start) }))
+      }));
+      result.cps = cps;
+      result.success = true;
+    } catch (error: any) {
+      result.error = String(error?.message ?? error);
+    }
+    return result;
+  }
+}
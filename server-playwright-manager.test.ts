@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { MAX_RENDER_CYCLES, PlaywrightManager, parseQuantize, renderOptionsError } from './server-playwright-manager';
+
+describe('parseQuantize', () => {
+  test('treats a missing option as no quantization', () => {
+    expect(parseQuantize(undefined)).toBeUndefined();
+    expect(parseQuantize(null)).toBeUndefined();
+    expect(parseQuantize('')).toBeUndefined();
+  });
+
+  test('accepts now and cycle', () => {
+    expect(parseQuantize('now')).toBe('now');
+    expect(parseQuantize('cycle')).toBe('cycle');
+  });
+
+  test('accepts a positive whole number of cycles, as number or string', () => {
+    expect(parseQuantize(4)).toBe(4);
+    expect(parseQuantize('8')).toBe(8);
+  });
+
+  test('accepts an absolute cycle as at:CYCLE or { at }', () => {
+    expect(parseQuantize('at:16')).toEqual({ at: 16 });
+    expect(parseQuantize({ at: 12.5 })).toEqual({ at: 12.5 });
+    expect(parseQuantize({ at: '3' })).toEqual({ at: 3 });
+  });
+
+  test('rejects anything else', () => {
+    for (const value of ['soon', 0, -2, 1.5, 'at:', 'at:x', { at: 'x' }, { at: null }, {}]) {
+      expect(() => parseQuantize(value)).toThrow('Invalid quantize option');
+    }
+  });
+});
+
+describe('renderOptionsError', () => {
+  test('accepts the defaults and sane values', () => {
+    expect(renderOptionsError({})).toBeUndefined();
+    expect(renderOptionsError({ cycles: 8, sampleRate: 48_000 })).toBeUndefined();
+  });
+
+  test('rejects cycles out of range', () => {
+    for (const cycles of [0, -1, NaN, MAX_RENDER_CYCLES + 1]) {
+      expect(renderOptionsError({ cycles })).toContain('cycles');
+    }
+  });
+
+  test('rejects sample rates out of range', () => {
+    for (const sampleRate of [0, 100, 44_100.5, NaN, 1_000_000]) {
+      expect(renderOptionsError({ sampleRate })).toContain('sampleRate');
+    }
+  });
+});
+
+describe('nudgeTempo', () => {
+  // Stands in for the page: the scheduler tempo is a plain number
+  function fakeManager(cps: number) {
+    const manager = new PlaywrightManager('http://localhost') as any;
+    manager.isInitialized = true;
+    manager.page = {};
+    manager.getTempo = async () => ({ cps, bpm: cps * 240, cycle: 0, started: true });
+    manager.applyTempo = async (next: number) => {
+      cps = next;
+      return manager.getTempo();
+    };
+    return { manager: manager as PlaywrightManager, tempo: () => cps };
+  }
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  test('releases a timed nudge back to the tempo from before it', async () => {
+    const { manager, tempo } = fakeManager(1);
+    await manager.nudgeTempo(0.1, 20);
+    await manager.nudgeTempo(0.1, 20);
+    expect(tempo()).toBeCloseTo(1.21);
+
+    await sleep(40);
+    expect(tempo()).toBeCloseTo(1);
+  });
+
+  test('keeps an untimed nudge made while a timed one is pending', async () => {
+    const { manager, tempo } = fakeManager(1);
+    await manager.nudgeTempo(0.1, 20);
+    await manager.nudgeTempo(-0.5);
+    expect(tempo()).toBeCloseTo(0.55);
+
+    await sleep(40);
+    expect(tempo()).toBeCloseTo(0.5);
+  });
+
+  test('an explicit tempo cancels the pending release', async () => {
+    const { manager, tempo } = fakeManager(1);
+    await manager.nudgeTempo(0.1, 20);
+    await manager.setTempo(2);
+
+    await sleep(40);
+    expect(tempo()).toBe(2);
+  });
+});
@@ -8,6 +8,205 @@
 
 import type { Browser, Page, BrowserContext } from 'playwright';
 import { chromium } from 'playwright';
+import { createWriteStream } from 'fs';
+import type { WriteStream } from 'fs';
+import type { EventBus } from './server-event-bus';
+import type { SampleCache } from './server-sample-cache';
+import { offsetToPosition } from './server-pattern-evaluator';
+import { findSampleRequirements } from './server-sample-preloader';
+
+export interface PlaywrightManagerOptions {
+  events?: EventBus;
+  sampleCache?: SampleCache;
+  preloadTimeoutMs?: number;  // longest a send waits for its samples; 0 disables preloading
+}
+
+export interface EvaluationError {
+  message: string;
+  line?: number;   // 1-based
+  column?: number; // 1-based
+  stack?: string;
+  source: 'evaluate' | 'pageerror' | 'console' | 'strudel';
+}
+
+/**
+* When a sent change should take effect: right away, at the next cycle,
+* at the next multiple of N cycles (e.g. 4 for a bar), or at a given cycle.
+*/
+export type Quantize = 'now' | 'cycle' | number | { at: number };
+
+export interface SendCodeOptions {
+  quantize?: Quantize;
+  preloadTimeoutMs?: number;  // overrides the manager's preload timeout for this send
+  safe?: boolean;             // validate in the shadow page first; the live page is untouched on failure
+}
+
+export interface SendCodeResult {
+  success: boolean;
+  status: 'evaluated' | 'failed' | 'rejected';  // rejected: safe send caught errors before going live
+  errors: EvaluationError[];
+  warnings?: EvaluationError[];  // page console errors and uncaught errors, e.g. a sample 404; they do not fail the send
+  cycle?: number;   // scheduler cycle at which the change takes effect, when playing
+  preload?: PreloadStatus;
+}
+
+export interface PreloadStatus {
+  state: 'idle' | 'loading' | 'done' | 'timeout' | 'failed';
+  sounds: string[];   // sample sounds found in the code
+  total: number;      // buffers to load
+  loaded: number;     // buffers fetched and decoded
+  failed: number;
+  errors: string[];
+  startedAt?: string;
+  duration?: number;  // milliseconds, once finished
+}
+
+export interface ValidationResult {
+  success: boolean;
+  errors: EvaluationError[];
+  cycles: number;   // cycles queried
+  haps: number;     // haps found in those cycles
+}
+
+export interface ShadowHap {
+  whole?: { begin: number; end: number };  // undefined for continuous (signal) haps
+  part: { begin: number; end: number };
+  value: unknown;
+  locations: { start: number; end: number }[];  // character offsets into the code
+}
+
+export interface ShadowQueryResult {
+  cps: number;
+  haps: ShadowHap[];
+}
+
+export interface RenderOptions {
+  cycles?: number;
+  sampleRate?: number;
+}
+
+export interface RenderResult {
+  success: boolean;
+  wav?: Buffer;
+  cps?: number;
+  duration?: number; // seconds
+  error?: string;
+}
+
+export interface SliderInfo {
+  id: string;      // `slider_<offset>`, as generated by the Strudel transpiler
+  name?: string;   // variable the slider is assigned to, e.g. `energy`
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  line: number;    // 1-based location of the slider's value in the evaluated code
+  column: number;  // 1-based
+}
+
+export interface TempoInfo {
+  cps: number;
+  bpm: number;     // assuming BEATS_PER_CYCLE beats per cycle
+  cycle: number;   // current scheduler position in cycles
+  started: boolean;
+}
+
+export interface HighlightRange {
+  start: number;   // character offsets into the evaluated code
+  end: number;
+}
+
+export type HighlightListener = (ranges: HighlightRange[]) => void;
+
+export interface RecordingStatus {
+  recording: boolean;
+  path?: string;
+  startedAt?: string;
+  bytes: number;
+}
+
+interface ActiveRecording {
+  path: string;
+  startedAt: Date;
+  stream: WriteStream;
+  bytes: number;
+}
+
+// Strudel's convention for converting cycles to beats (setcpm(bpm / 4))
+export const BEATS_PER_CYCLE = 4;
+
+// Longest offline render accepted, in cycles and in seconds of audio
+export const MAX_RENDER_CYCLES = 256;
+const MAX_RENDER_SECONDS = 600;
+// Sample rates an offline render may use
+export const MIN_RENDER_SAMPLE_RATE = 8000;
+export const MAX_RENDER_SAMPLE_RATE = 96_000;
+// Longest an offline render may take before its page is closed
+const RENDER_TIMEOUT_MS = 60_000;
+
+// How long to keep listening for scheduler errors after an evaluation
+const EVALUATION_SETTLE_MS = 150;
+const MAX_CAPTURED_ERRORS = 200;
+
+// MediaRecorder flushes a chunk to the server this often
+const RECORDING_TIMESLICE_MS = 1000;
+
+// Cycles a safe send queries in the shadow page before going live
+const VALIDATION_CYCLES = 4;
+// Longest a validation or query may run in the shadow page; the page is replaced after that
+const SHADOW_TIMEOUT_MS = 5000;
+// Strudel's scheduler default, restored before each query
+const DEFAULT_CPS = 0.5;
+
+// Default for how long a send waits for its samples before evaluating anyway. Together with a
+// safe-send check (SHADOW_TIMEOUT_MS) and EVALUATION_SETTLE_MS it stays below the 10 s request
+// timeout of strudel-send.sh; the Neovim plugin sizes its own timeout from the same budget
+const DEFAULT_PRELOAD_TIMEOUT_MS = 4000;
+// Variants preloaded per sound; pitched instruments can have dozens
+const MAX_PRELOAD_VARIANTS = 32;
+
+/**
+* Check the options of an offline render.
+*
+* @param {RenderOptions} options - Cycles and sample rate.
+* @returns {string | undefined} What is wrong with them, or undefined when they are fine.
+*/
+export function renderOptionsError({ cycles = 4, sampleRate = 44_100 }: RenderOptions): string | undefined {
+  if (!(cycles > 0) || cycles > MAX_RENDER_CYCLES) {
+    return `cycles must be more than 0 and at most ${MAX_RENDER_CYCLES}`;
+  }
+  if (!Number.isInteger(sampleRate) || sampleRate < MIN_RENDER_SAMPLE_RATE || sampleRate > MAX_RENDER_SAMPLE_RATE) {
+    return `sampleRate must be a whole number between ${MIN_RENDER_SAMPLE_RATE} and ${MAX_RENDER_SAMPLE_RATE}`;
+  }
+  return undefined;
+}
+
+/**
+* Parse a quantize option from a request ("now", "cycle", 4, "4", "at:16" or { at: 16 }).
+*
+* @param {unknown} value - Raw option.
+* @returns {Quantize | undefined} The option, or undefined when not given.
+* @throws {Error} When the option is not understood.
+*/
+export function parseQuantize(value: unknown): Quantize | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (value === 'now' || value === 'cycle') return value;
+
+  // Number('') and Number(null) are 0, so an empty cycle has to be ruled out first
+  const isCycle = (at: unknown) => (typeof at === 'number' || (typeof at === 'string' && at.trim() !== ''))
+    && Number.isFinite(Number(at));
+  if (typeof value === 'object' && isCycle((value as any).at)) {
+    return { at: Number((value as any).at) };
+  }
+  if (typeof value === 'string' && value.startsWith('at:') && isCycle(value.slice(3))) {
+    return { at: Number(value.slice(3)) };
+  }
+  if (Number(value) > 0 && Number.isInteger(Number(value))) {
+    return Number(value);
+  }
+
+  throw new Error(`Invalid quantize option: ${JSON.stringify(value)} (use now, cycle, N or at:CYCLE)`);
+}
 
 /**
 * @class Playwright Manager
@@ -17,18 +216,37 @@ export class PlaywrightManager {
   private browser?: Browser;
   private context?: BrowserContext;
   private page?: Page;
+  private shadowPage?: Promise<Page>;
+  private shadowQueue: Promise<unknown> = Promise.resolve();
   private strudelUrl: string;
   private isInitialized = false;
   private audioContextInitialized = false;
+  private isPlaying = false;
+  private isClosing = false;
+  private capturedErrors: EvaluationError[] = [];
+  private capturedErrorTotal = 0;
+  private events?: EventBus;
+  private sampleCache?: SampleCache;
+  private preloadTimeoutMs: number;
+  private preload: PreloadStatus = { state: 'idle', sounds: [], total: 0, loaded: 0, failed: 0, errors: [] };
+  private recording?: ActiveRecording;
+  private evaluatedCode?: string;
+  private nudgeTimer?: ReturnType<typeof setTimeout>;
+  private nudgeBaseCps?: number;
+  private highlightListener?: HighlightListener;
 
   /**
   * @constructor
   * @description Constructs a new PlaywrightManager instance.
   *
   * @param {string} strudelUrl - The URL containing the Strudel REPL.
+  * @param {PlaywrightManagerOptions} options - Optional collaborators (event bus, sample cache).
   */
-  constructor(strudelUrl: string) {
+  constructor(strudelUrl: string, options: PlaywrightManagerOptions = {}) {
     this.strudelUrl = strudelUrl;
+    this.events = options.events;
+    this.sampleCache = options.sampleCache;
+    this.preloadTimeoutMs = options.preloadTimeoutMs ?? DEFAULT_PRELOAD_TIMEOUT_MS;
   }
 
   /**
@@ -64,21 +282,29 @@ export class PlaywrightManager {
         viewport: { width: 1280, height: 720 },
         permissions: ['camera', 'microphone']
       });
+      await this.setupSampleCache();
       this.page = await this.context.newPage();
       this.page.setDefaultTimeout(30_000);
+      this.watchForCrashes();
+      await this.setupErrorCapture();
 
       // Initialize AudioContext before navigation
       await this.setupAudioWorkletContext();
+      await this.setupRecordingBridge();
+      await this.setupPreloadBridge();
+      await this.setupHighlightBridge();
 
       console.log(`📱 Navigating to ${this.strudelUrl}/strudel`);
       await this.navigateWithRetry();                // ← robust navigation
       await this.waitForStrudelReady();
+      await this.installHighlightHook();
 
       // Initialize audio after Strudel is ready
       await this.initializeAudioContext();
 
       this.isInitialized = true;
       console.log('✅ Playwright browser ready and targeting Strudel REPL');
+      this.events?.emit('browser:initialized', { strudelUrl: this.strudelUrl });
       return true;
     } catch (error) {
       console.error('❌ Failed to initialize Playwright:', error);
@@ -87,6 +313,44 @@ export class PlaywrightManager {
     }
   }
 
+  /**
+   * Marks the manager as uninitialized when the page or browser dies unexpectedly
+   * @private
+   */
+  private watchForCrashes(): void {
+    const onCrash = (reason: string) => {
+      if (this.isClosing || !this.isInitialized) return;
+
+      console.error(`💥 Strudel browser crashed: ${reason}`);
+      this.isInitialized = false;
+      this.audioContextInitialized = false;
+      this.setPlaying(false);
+      void this.finishRecording();
+      this.events?.emit('browser:crashed', { reason });
+    };
+
+    this.page?.on('crash', () => onCrash('page crashed'));
+    this.page?.on('close', () => onCrash('page closed'));
+    this.browser?.on('disconnected', () => onCrash('browser disconnected'));
+  }
+
+  /**
+   * Tracks playback state and publishes start/stop transitions
+   * @private
+   *
+   * @param {boolean} playing - Whether Strudel is now playing.
+   */
+  private setPlaying(playing: boolean): void {
+    if (this.isPlaying === playing) return;
+
+    this.isPlaying = playing;
+    this.events?.emit(playing ? 'playback:started' : 'playback:stopped', {});
+    if (!playing) {
+      // The page stops drawing, so nothing is sounding any more
+      this.highlightListener?.([]);
+    }
+  }
+
   /**
    * Sets up AudioWorklet context initialization scripts
    * @private
@@ -154,9 +418,216 @@ export class PlaywrightManager {
       if ((window as any).webkitAudioContext) {
         (window as any).webkitAudioContext = AudioContextProxy;
       }
+
+      // Track every node feeding the speakers so the master output can be tapped
+      const masterInputs = new Set<AudioNode>();
+      let recordingTap: MediaStreamAudioDestinationNode | null = null;
+      let recorder: MediaRecorder | null = null;
+      const originalConnect = AudioNode.prototype.connect as (...args: any[]) => any;
+      const originalDisconnect = AudioNode.prototype.disconnect as (...args: any[]) => any;
+
+      AudioNode.prototype.connect = function (this: AudioNode, destination: any, ...rest: any[]) {
+        const result = originalConnect.call(this, destination, ...rest);
+        if (destination instanceof AudioDestinationNode) {
+          masterInputs.add(this);
+          if (recordingTap && recordingTap.context === this.context) {
+            originalConnect.call(this, recordingTap);
+          }
+        }
+        return result;
+      } as any;
+
+      AudioNode.prototype.disconnect = function (this: AudioNode, ...args: any[]) {
+        if (args.length === 0 || args[0] instanceof AudioDestinationNode) {
+          masterInputs.delete(this);
+          if (recordingTap && args.length > 0) {
+            try { originalDisconnect.call(this, recordingTap); } catch { /* not connected */ }
+          }
+        }
+        return originalDisconnect.apply(this, args);
+      } as any;
+
+      (window as any).__strudelRecorder = {
+        start: async (timeslice: number): Promise<string> => {
+          if (recorder) throw new Error('Already recording');
+
+          const context = await createAudioContext();
+          globalAudioContext = context;
+          recordingTap = context.createMediaStreamDestination();
+          for (const node of masterInputs) {
+            if (node.context === context) originalConnect.call(node, recordingTap);
+          }
+
+          const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+            ? 'audio/webm;codecs=opus'
+            : 'audio/webm';
+          recorder = new MediaRecorder(recordingTap.stream, { mimeType });
+
+          // Deliver chunks in order; the server appends them to the file as they arrive
+          let delivered = Promise.resolve();
+          recorder.ondataavailable = (event) => {
+            if (event.data.size === 0) return;
+            delivered = delivered.then(async () => {
+              const bytes = new Uint8Array(await event.data.arrayBuffer());
+              let binary = '';
+              for (let i = 0; i < bytes.length; i += 0x8000) {
+                binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+              }
+              await (window as any).__strudelRecordingChunk(btoa(binary));
+            });
+          };
+          (recorder as any).delivered = () => delivered;
+
+          recorder.start(timeslice);
+          return mimeType;
+        },
+        stop: async (): Promise<void> => {
+          if (!recorder) return;
+
+          const active = recorder;
+          const stopped = new Promise(resolve => active.addEventListener('stop', resolve, { once: true }));
+          active.stop();
+          await stopped;
+          await (active as any).delivered();
+
+          for (const node of masterInputs) {
+            try { originalDisconnect.call(node, recordingTap); } catch { /* not connected */ }
+          }
+          recordingTap = null;
+          recorder = null;
+        }
+      };
+    });
+  }
+
+  /**
+   * Routes `github:` sample maps and audio of every page through the offline sample cache
+   * @private
+   * @async
+   */
+  private async setupSampleCache(): Promise<void> {
+    const cache = this.sampleCache;
+    if (!this.context || !cache) return;
+
+    await this.context.route(url => cache.handles(url.href), async route => {
+      const request = route.request();
+      if (request.method() !== 'GET') {
+        return route.continue();
+      }
+
+      try {
+        const response = await cache.fetch(request.url());
+        await route.fulfill({
+          status: 200,
+          contentType: response.contentType,
+          headers: { 'Access-Control-Allow-Origin': '*' },
+          body: Buffer.from(response.body)
+        });
+      } catch (error) {
+        // Not cached and no network: fail the request like the browser would
+        console.error(`❌ Sample unavailable offline: ${request.url()}`, error);
+        await route.abort('internetdisconnected').catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * Exposes the function the page uses to stream recorded audio chunks back
+   * @private
+   * @async
+   */
+  private async setupRecordingBridge(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    await this.page.exposeFunction('__strudelRecordingChunk', (chunk: string) => {
+      if (!this.recording) return;
+
+      const data = Buffer.from(chunk, 'base64');
+      this.recording.bytes += data.length;
+      this.recording.stream.write(data);
+    });
+  }
+
+  /**
+   * Exposes the function the page uses to report sample preload progress
+   * @private
+   * @async
+   */
+  private async setupPreloadBridge(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    await this.page.exposeFunction('__strudelPreloadProgress', (progress: { total?: number; loaded: number; failed: number; error?: string }) => {
+      if (this.preload.state !== 'loading') return;
+
+      this.preload.total = progress.total ?? this.preload.total;
+      this.preload.loaded = progress.loaded;
+      this.preload.failed = progress.failed;
+      if (progress.error) this.preload.errors.push(progress.error);
+    });
+  }
+
+  /**
+   * Exposes the function the page uses to report the code locations that are sounding
+   * @private
+   * @async
+   */
+  private async setupHighlightBridge(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    await this.page.exposeFunction('__strudelHighlight', (ranges: HighlightRange[]) => {
+      this.highlightListener?.(ranges);
+    });
+  }
+
+  /**
+   * Hooks into the editor's draw loop, which highlights the active haps every frame,
+   * and reports their locations whenever they change
+   * @private
+   * @async
+   */
+  private async installHighlightHook(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    await this.page.evaluate(() => {
+      const editor = (document.querySelector('strudel-editor') as any)?.editor;
+      if (!editor || editor.__highlightHooked) return;
+
+      const highlight = editor.highlight.bind(editor);
+      let previous = '';
+      let lastFrame = 0;
+      editor.highlight = (haps: any[], time: number) => {
+        highlight(haps, time);
+
+        // Frames come every few milliseconds while playing; after a stop, report the first one again
+        if (performance.now() - lastFrame > 250) previous = '';
+        lastFrame = performance.now();
+
+        const ranges = new Map<string, { start: number; end: number }>();
+        for (const hap of haps) {
+          for (const { start, end } of hap.context?.locations ?? []) {
+            ranges.set(`${start}:${end}`, { start, end });
+          }
+        }
+        const key = [...ranges.keys()].sort().join(',');
+        if (key !== previous) {
+          previous = key;
+          (window as any).__strudelHighlight([...ranges.values()]);
+        }
+      };
+      editor.__highlightHooked = true;
     });
   }
 
+  /**
+   * Registers the listener for the code locations of the haps that are sounding.
+   * It is called with an empty list when playback stops.
+   *
+   * @param {HighlightListener} listener - Receives offsets into the evaluated code; undefined removes it.
+   */
+  setHighlightListener(listener?: HighlightListener): void {
+    this.highlightListener = listener;
+  }
+
   /**
   * Initializes AudioContext and triggers user gesture for audio
   * @private
@@ -243,10 +714,10 @@ export class PlaywrightManager {
     }
   }
 
-  private async navigateWithRetry(max = 4) {
+  private async navigateWithRetry(max = 4, page: Page | undefined = this.page) {
     for (let attempt = 1; attempt <= max; ++attempt) {
       try {
-        await this.page!.goto(`${this.strudelUrl}/strudel`, {
+        await page!.goto(`${this.strudelUrl}/strudel`, {
           waitUntil: 'domcontentloaded',
           timeout: 30_000
         });
@@ -265,26 +736,27 @@ export class PlaywrightManager {
   * @private
   * @async
   *
+  * @param {Page} page - Page to wait on, defaults to the live REPL page.
   * @returns {Promise<void>} Resolves when the Strudel REPL is ready.
   */
-  private async waitForStrudelReady(): Promise<void> {
-    if (!this.page) throw new Error('Page not initialized');
+  private async waitForStrudelReady(page: Page | undefined = this.page): Promise<void> {
+    if (!page) throw new Error('Page not initialized');
 
     try {
       console.log('⏳ Waiting for Strudel REPL to be ready...');
 
       // Wait for page load
-      await this.page.waitForLoadState('domcontentloaded');
+      await page.waitForLoadState('domcontentloaded');
 
       // Wait for element to be attached (not visible)
-      await this.page.waitForSelector('strudel-editor', {
+      await page.waitForSelector('strudel-editor', {
         state: 'attached',
         timeout: 30000
       });
       console.log('✅ strudel-editor element found');
 
       // Wait for the web component's .editor property to initialize
-      await this.page.waitForFunction(() => {
+      await page.waitForFunction(() => {
         const strudelEditor = document.querySelector('strudel-editor') as any;
         return strudelEditor &&
           strudelEditor.editor &&
@@ -303,74 +775,638 @@ export class PlaywrightManager {
   * Sends code to the Strudel REPL.
   * @async
   *
+  * The code is evaluated right away, so errors come back immediately. With a
+  * quantize option the scheduler keeps playing the previous pattern until the
+  * target cycle and switches to the new one exactly there.
+  *
   * @param {string} code - The code to send to the Strudel REPL.
-  * @returns {Promise<boolean>} True if the code is successfully sent, false otherwise.
+  * @param {SendCodeOptions} options - Optional quantization.
+  * @returns {Promise<SendCodeResult>} Whether the code evaluated, plus every error raised while doing so.
   */
-  async sendCodeToStrudel(code: string): Promise<boolean> {
+  async sendCodeToStrudel(code: string, options: SendCodeOptions = {}): Promise<SendCodeResult> {
     if (!this.isInitialized || !this.page) {
       console.error('❌ Playwright not initialized');
-      return false;
+      return this.failedResult('Playwright not initialized');
     }
     //
     // Ensure audio is ready for sample playback
     await this.ensureAudioReady();
 
+    if (options.safe) {
+      const validation = await this.validateCode(code);
+      if (!validation.success) {
+        console.error('🛡️ Safe send rejected code, live pattern untouched:', validation.errors.map(e => e.message).join('; '));
+        this.events?.emit('code:rejected', { errors: validation.errors });
+        return { success: false, status: 'rejected', errors: validation.errors };
+      }
+    }
+
     try {
       console.log('📤 Sending code to Strudel REPL...');
       console.log(`Code: ${code}`);
+      this.events?.emit('code:sent', { code, quantize: options.quantize });
 
-      const success = await this.page.evaluate((codeToSet) => {
+      // Fetch and decode the samples first, so the first cycles are not silent
+      const preload = await this.preloadSamples(code, options.preloadTimeoutMs);
+
+      const errorMark = this.capturedErrorTotal;
+      await this.drainStrudelErrors();
+
+      const outcome = await this.page.evaluate(async ({ codeToSet, quantize }) => {
+        let restoreSetPattern = () => {};
         try {
           // Get the strudel-editor web component
           const strudelEditor = document.querySelector('strudel-editor') as any;
 
           if (!strudelEditor) {
-            console.error('❌ strudel-editor element not found');
-            return false;
+            return { evaluated: false, error: { message: 'strudel-editor element not found' } };
           }
 
           if (!strudelEditor.editor) {
-            console.error('❌ strudelEditor.editor property not available');
-            return false;
+            return { evaluated: false, error: { message: 'strudelEditor.editor property not available' } };
           }
 
           if (typeof strudelEditor.editor.setCode !== 'function') {
-            console.error('❌ setCode method not available');
-            return false;
+            return { evaluated: false, error: { message: 'setCode method not available' } };
           }
 
           // Set the code using the official Strudel API
           strudelEditor.editor.setCode(codeToSet);
           console.log('✅ Code set successfully');
 
-          // Optionally evaluate the code immediately
-          if (typeof strudelEditor.editor.evaluate === 'function') {
-            strudelEditor.editor.evaluate();
-            console.log('✅ Code evaluated');
+          if (typeof strudelEditor.editor.evaluate !== 'function') {
+            return { evaluated: false, error: { message: 'evaluate method not available' } };
           }
 
-          return true;
+          const scheduler = strudelEditor.editor.repl?.scheduler;
+          let cycle: number | undefined;
+
+          if (scheduler?.started) {
+            // Haps up to lastEnd are already scheduled, so nothing can change before it
+            const frontier = Math.max(scheduler.now(), scheduler.lastEnd);
+            const target = quantize === undefined || quantize === 'now' ? undefined
+              : quantize === 'cycle' ? Math.floor(frontier) + 1
+              : typeof quantize === 'number' ? (Math.floor(frontier / quantize) + 1) * quantize
+              : quantize.at;
+
+            if (target !== undefined && target < frontier) {
+              return {
+                evaluated: false,
+                error: { message: `Cycle ${target} has already been scheduled (now at ${frontier.toFixed(2)})` }
+              };
+            }
+            cycle = target ?? frontier;
+
+            if (target !== undefined) {
+              // Splice the new pattern in at the target cycle when the repl hands it to the scheduler
+              const setPattern = scheduler.setPattern;
+              restoreSetPattern = () => { scheduler.setPattern = setPattern; };
+              scheduler.setPattern = function (pattern: any, autostart?: boolean) {
+                restoreSetPattern();
+                const previous = scheduler.pattern;
+                if (!previous) return setPattern.call(scheduler, pattern, autostart);
+
+                const before = (hap: any) => (hap.whole ?? hap.part).begin.valueOf() < target;
+                const spliced = previous.filterHaps(before).stack(pattern.filterHaps((hap: any) => !before(hap)));
+
+                // Drop the splice once the scheduler has queried past the target
+                const release = () => {
+                  if (scheduler.pattern !== spliced) return;
+                  if (scheduler.lastEnd > target) {
+                    scheduler.pattern = pattern;
+                  } else {
+                    setTimeout(release, 100);
+                  }
+                };
+                setTimeout(release, 100);
+                return setPattern.call(scheduler, spliced, autostart);
+              };
+            }
+          }
 
-        } catch (err) {
-          console.error('❌ Error in evaluate:', err);
-          return false;
+          // The repl swallows evaluation errors and keeps them in its state
+          await strudelEditor.editor.evaluate();
+          restoreSetPattern();
+          const evalError = strudelEditor.editor.repl?.state?.evalError;
+          if (evalError) {
+            return {
+              evaluated: false,
+              error: {
+                message: String(evalError.message ?? evalError),
+                stack: evalError.stack,
+                // acorn syntax errors carry a 1-based line and 0-based column
+                line: evalError.loc?.line,
+                column: evalError.loc ? evalError.loc.column + 1 : undefined
+              }
+            };
+          }
+
+          console.log('✅ Code evaluated');
+          return { evaluated: true, cycle };
+
+        } catch (err: any) {
+          return { evaluated: false, error: { message: String(err?.message ?? err), stack: err?.stack } };
+        } finally {
+          restoreSetPattern();
         }
-      }, code);
+      }, { codeToSet: code, quantize: options.quantize });
 
-      if (success) {
+      if (outcome.evaluated) {
+        this.evaluatedCode = code;
+      }
+
+      // Give the scheduler a moment to surface errors raised while querying the new pattern
+      await new Promise(resolve => setTimeout(resolve, EVALUATION_SETTLE_MS));
+      await this.drainStrudelErrors();
+
+      // Only the evaluation and Strudel's own log decide the outcome; other page noise is passed on as warnings
+      const captured = this.collectErrors(
+        outcome.error ? [{ ...outcome.error, source: 'evaluate' }] : [],
+        this.errorsSince(errorMark)
+      );
+      const errors = captured.filter(error => error.source === 'evaluate' || error.source === 'strudel');
+      const warnings = captured.filter(error => error.source === 'console' || error.source === 'pageerror');
+      const result: SendCodeResult = {
+        success: outcome.evaluated && errors.length === 0,
+        status: outcome.evaluated && errors.length === 0 ? 'evaluated' : 'failed',
+        errors,
+        warnings,
+        cycle: outcome.evaluated ? outcome.cycle : undefined,
+        preload
+      };
+
+      this.events?.emit('code:evaluated', { success: result.success, errors, cycle: result.cycle });
+
+      if (warnings.length > 0) {
+        console.warn('⚠️ Page errors during evaluation:', warnings.map(e => e.message).join('; '));
+      }
+      if (result.success) {
         console.log('✅ Code successfully sent to Strudel');
-        return true;
+        this.setPlaying(true);
       } else {
-        console.error('❌ Failed to set code in Strudel editor');
-        return false;
+        console.error('❌ Strudel failed to evaluate code:', errors.map(e => e.message).join('; '));
       }
+      return result;
 
     } catch (error) {
       console.error('❌ Failed to send code to Strudel:', error);
-      return false;
+      return this.failedResult(String(error));
+    }
+  }
+
+  /**
+   * Evaluates code in the muted shadow page and queries a few cycles of it,
+   * without touching the live REPL
+   * @public
+   * @async
+   *
+   * @param {string} code - Strudel code.
+   * @param {number} cycles - Cycles to query.
+   * @returns {Promise<ValidationResult>} Whether the code evaluates and queries cleanly, and the errors otherwise.
+   */
+  async validateCode(code: string, cycles: number = VALIDATION_CYCLES): Promise<ValidationResult> {
+    // The shadow page has a single repl, so validations take turns
+    const run = this.shadowQueue.then(() => this.runValidation(code, cycles));
+    this.shadowQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Runs one validation in the shadow page
+   * @private
+   * @async
+   */
+  private async runValidation(code: string, cycles: number): Promise<ValidationResult> {
+    const failed = (message: string): ValidationResult => ({
+      success: false,
+      errors: [{ message, source: 'evaluate' }],
+      cycles,
+      haps: 0
+    });
+
+    let page: Page;
+    try {
+      page = await this.getShadowPage();
+    } catch (error) {
+      return failed(`Shadow page unavailable: ${error}`);
+    }
+
+    try {
+      const outcome = await this.withShadowTimeout(page, page.evaluate(async ({ code, cycles }) => {
+        const editor = (document.querySelector('strudel-editor') as any).editor;
+        await editor.prebaked;
+
+        const pattern = await editor.repl.evaluate(code, false);
+        const evalError = editor.repl.state.evalError;
+        if (evalError) {
+          return {
+            ok: false,
+            haps: 0,
+            error: {
+              message: String(evalError.message ?? evalError),
+              stack: evalError.stack,
+              line: evalError.loc?.line,
+              column: evalError.loc ? evalError.loc.column + 1 : undefined
+            }
+          };
+        }
+
+        try {
+          // Errors in mini-notation and signals only surface when the pattern is queried
+          const haps = pattern?.queryArc(0, cycles) ?? [];
+          for (const hap of haps) {
+            if (hap.hasOnset()) hap.ensureObjectValue();
+          }
+          return { ok: true, haps: haps.length };
+        } catch (err: any) {
+          return { ok: false, haps: 0, error: { message: String(err?.message ?? err), stack: err?.stack } };
+        }
+      }, { code, cycles }));
+
+      return {
+        success: outcome.ok,
+        errors: outcome.error ? [{ ...outcome.error, source: 'evaluate' }] : [],
+        cycles,
+        haps: outcome.haps
+      };
+    } catch (error) {
+      return failed(String(error));
+    }
+  }
+
+  /**
+   * Evaluates code in the muted shadow page and returns its haps between two cycles.
+   * The code runs in the browser, never in the server process.
+   * @public
+   * @async
+   *
+   * @param {string} code - Strudel code.
+   * @param {number} from - First cycle of the span.
+   * @param {number} to - End cycle of the span (exclusive).
+   * @returns {Promise<ShadowQueryResult>} The haps with their source offsets, and the tempo the code set.
+   * @throws {Error} When the code does not evaluate or query, or runs past the shadow timeout.
+   */
+  async queryPattern(code: string, from: number, to: number): Promise<ShadowQueryResult> {
+    const run = this.shadowQueue.then(() => this.runQuery(code, from, to));
+    this.shadowQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Runs one query in the shadow page
+   * @private
+   * @async
+   */
+  private async runQuery(code: string, from: number, to: number): Promise<ShadowQueryResult> {
+    const page = await this.getShadowPage();
+    const outcome = await this.withShadowTimeout(page, page.evaluate(async ({ code, from, to, cps }) => {
+      const editor = (document.querySelector('strudel-editor') as any).editor;
+      await editor.prebaked;
+
+      // Tempo set by a previous evaluation must not leak into this one
+      editor.repl.setCps(cps);
+      const pattern = await editor.repl.evaluate(code, false);
+      const evalError = editor.repl.state.evalError;
+      if (evalError) {
+        return { error: String(evalError.message ?? evalError) };
+      }
+
+      try {
+        const toSpan = (span: any) => ({ begin: span.begin.valueOf(), end: span.end.valueOf() });
+        const haps = (pattern?.queryArc(from, to) ?? []).map((hap: any) => ({
+          whole: hap.whole ? toSpan(hap.whole) : undefined,
+          part: toSpan(hap.part),
+          value: hap.value,
+          locations: (hap.context?.locations ?? []).map(({ start, end }: any) => ({ start, end }))
+        }));
+        return { cps: editor.repl.scheduler.cps as number, haps };
+      } catch (err: any) {
+        return { error: String(err?.message ?? err) };
+      }
+    }, { code, from, to, cps: DEFAULT_CPS }));
+
+    if (outcome.error !== undefined) {
+      throw new Error(outcome.error);
+    }
+    return { cps: outcome.cps!, haps: outcome.haps! };
+  }
+
+  /**
+   * Waits for work in the shadow page, giving up after the shadow timeout. A hung shadow
+   * page is closed and reopened on the next use.
+   * @private
+   * @async
+   */
+  private withShadowTimeout<T>(page: Page, work: Promise<T>): Promise<T> {
+    return this.withPageTimeout(page, work, SHADOW_TIMEOUT_MS, () => {
+      this.shadowPage = undefined;
+    });
+  }
+
+  /**
+   * Waits for work in an auxiliary page, giving up after a timeout. Code that never
+   * returns (an endless loop) hangs the page, so it is closed.
+   * @private
+   * @async
+   */
+  private async withPageTimeout<T>(page: Page, work: Promise<T>, timeoutMs: number, onHang?: () => void): Promise<T> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        console.error('🛡️ Auxiliary page hung, closing it');
+        onHang?.();
+        work.catch(() => undefined);
+        void page.close().catch(() => undefined);
+        reject(new Error(`Code ran for more than ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Opens the muted shadow page used for validation, once
+   * @private
+   * @async
+   */
+  private getShadowPage(): Promise<Page> {
+    if (!this.shadowPage) {
+      console.log('🛡️ Opening shadow page for safe sends...');
+      const opening = this.openAuxiliaryPage(() => {
+        // Keep the shadow page silent: its audio context never runs
+        const OriginalAudioContext = window.AudioContext;
+        const MutedAudioContext = function (...args: any[]) {
+          const context = new OriginalAudioContext(...args);
+          void context.suspend();
+          context.resume = () => Promise.resolve();
+          return context;
+        };
+        MutedAudioContext.prototype = OriginalAudioContext.prototype;
+        (window as any).AudioContext = MutedAudioContext;
+      });
+      this.shadowPage = opening;
+
+      opening.then(page => {
+        page.on('close', () => {
+          if (this.shadowPage === opening) this.shadowPage = undefined;
+        });
+      }, () => {
+        if (this.shadowPage === opening) this.shadowPage = undefined;
+      });
+    }
+    return this.shadowPage;
+  }
+
+  /**
+   * Loads the sample maps and decodes the sample buffers a piece of code uses,
+   * waiting at most the preload timeout. Loads still running afterwards carry on in the page.
+   * @public
+   * @async
+   *
+   * @param {string} code - Strudel code.
+   * @param {number} timeoutMs - Longest to wait; defaults to the manager's preload timeout, 0 skips preloading.
+   * @returns {Promise<PreloadStatus | undefined>} The preload outcome, or undefined when skipped.
+   */
+  async preloadSamples(code: string, timeoutMs: number = this.preloadTimeoutMs): Promise<PreloadStatus | undefined> {
+    if (!this.isInitialized || !this.page || !(timeoutMs > 0)) return undefined;
+
+    const { sampleMaps, sounds } = findSampleRequirements(code);
+    if (sampleMaps.length === 0 && sounds.length === 0) return undefined;
+
+    const preload: PreloadStatus = {
+      state: 'loading',
+      sounds: [],
+      total: 0,
+      loaded: 0,
+      failed: 0,
+      errors: [],
+      startedAt: new Date().toISOString()
+    };
+    this.preload = preload;
+    const started = Date.now();
+    this.events?.emit('samples:preload', { state: 'loading', total: 0, loaded: 0, failed: 0 });
+
+    const loading = this.page.evaluate(async ({ sampleMaps, sounds, maxVariants }) => {
+      const g = globalThis as any;
+      const report = (progress: { total?: number; loaded: number; failed: number; error?: string }) =>
+        g.__strudelPreloadProgress?.(progress);
+
+      // Strudel's evalScope puts the superdough exports on the global scope
+      if (typeof g.samples !== 'function' || typeof g.loadBuffer !== 'function' || !g.soundMap) {
+        return { ok: false, error: 'Strudel sample loader not available', sounds: [], total: 0 };
+      }
+
+      const mapErrors: string[] = [];
+      await Promise.all(sampleMaps.map((map: string) =>
+        g.samples(map).catch((err: any) => { mapErrors.push(`${map}: ${err?.message ?? err}`); })
+      ));
+
+      // Sounds named in the code, plus banks (`.bank("tr909")` with `s("bd")` plays `tr909_bd`)
+      const words = new Set<string>(sounds);
+      const registered = g.soundMap.get();
+      const needed = Object.keys(registered).filter(key => {
+        if (registered[key]?.data?.type !== 'sample') return false;
+        if (words.has(key)) return true;
+        const split = key.indexOf('_');
+        return split > 0 && words.has(key.slice(0, split)) && words.has(key.slice(split + 1));
+      });
+
+      const buffers: { url: string; s: string; n: number }[] = [];
+      for (const s of needed) {
+        const bank = registered[s].data.samples;
+        const urls: string[] = Array.isArray(bank)
+          ? bank
+          : Object.entries(bank ?? {}).filter(([key]) => !key.startsWith('_')).flatMap(([, urls]) => urls as string[]);
+        urls.slice(0, maxVariants).forEach((url, n) => buffers.push({ url, s, n }));
+      }
+
+      let loaded = 0;
+      let failed = 0;
+      report({ total: buffers.length, loaded, failed });
+      for (const error of mapErrors) report({ loaded, failed, error });
+
+      const ac = g.getAudioContext();
+      await Promise.all(buffers.map(({ url, s, n }) =>
+        g.loadBuffer(url, ac, s, n).then(
+          () => { loaded++; report({ loaded, failed }); },
+          (err: any) => { failed++; report({ loaded, failed, error: `${s}:${n}: ${err?.message ?? err}` }); }
+        )
+      ));
+      return { ok: true, sounds: needed, total: buffers.length };
+    }, { sampleMaps, sounds, maxVariants: MAX_PRELOAD_VARIANTS });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>(resolve => { timer = setTimeout(() => resolve('timeout'), timeoutMs); });
+
+    try {
+      const outcome = await Promise.race([loading, timeout]);
+      if (outcome === 'timeout') {
+        preload.state = 'timeout';
+        console.log(`⏳ Sample preload timed out after ${timeoutMs}ms (${preload.loaded} buffers loaded)`);
+        loading.catch(() => undefined);
+      } else if (!outcome.ok) {
+        preload.state = 'failed';
+        preload.errors.push(outcome.error ?? 'Sample preload failed');
+      } else {
+        preload.sounds = outcome.sounds;
+        preload.total = outcome.total;
+        preload.state = preload.failed > 0 ? 'failed' : 'done';
+        console.log(`🥁 Preloaded ${preload.loaded}/${preload.total} sample buffers for ${preload.sounds.length} sounds`);
+      }
+    } catch (error) {
+      preload.state = 'failed';
+      preload.errors.push(String(error));
+    } finally {
+      clearTimeout(timer);
+    }
+
+    preload.duration = Date.now() - started;
+    this.events?.emit('samples:preload', {
+      state: preload.state,
+      total: preload.total,
+      loaded: preload.loaded,
+      failed: preload.failed
+    });
+    return { ...preload, errors: [...preload.errors] };
+  }
+
+  /**
+   * Describes the most recent sample preload
+   *
+   * @returns {PreloadStatus} Preload state and progress.
+   */
+  getPreloadStatus(): PreloadStatus {
+    return { ...this.preload, errors: [...this.preload.errors] };
+  }
+
+  /**
+   * Builds a failed send result carrying a single error
+   * @private
+   *
+   * @param {string} message - Error message.
+   * @returns {SendCodeResult} Failed result.
+   */
+  private failedResult(message: string): SendCodeResult {
+    return {
+      success: false,
+      status: 'failed',
+      errors: [{ message, source: 'evaluate' }]
+    };
+  }
+
+  /**
+   * Merges errors from all sources, dropping duplicates of the same message
+   * @private
+   *
+   * @param {EvaluationError[]} primary - Errors reported by the evaluation itself.
+   * @param {EvaluationError[]} captured - Errors captured from the page since the send started.
+   * @returns {EvaluationError[]} Deduplicated errors, primary first.
+   */
+  private collectErrors(primary: EvaluationError[], captured: EvaluationError[]): EvaluationError[] {
+    const seen = new Set<string>();
+    const errors: EvaluationError[] = [];
+
+    for (const error of [...primary, ...captured]) {
+      // Strudel prefixes its own log lines, e.g. "[eval] error: foo is not defined"
+      const key = error.message.replace(/^\[\w+\] error: /, '').trim();
+      if (seen.has(key) || errors.some(e => e.message.includes(key) || key.includes(e.message))) continue;
+      seen.add(key);
+      errors.push(error);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Registers listeners that capture uncaught page errors, console errors
+   * and Strudel's own error log events
+   * @private
+   * @async
+   */
+  private async setupErrorCapture(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    this.page.on('pageerror', (error) => {
+      this.pushCapturedError({
+        message: error.message,
+        stack: error.stack,
+        source: 'pageerror'
+      });
+    });
+
+    this.page.on('console', (message) => {
+      if (message.type() !== 'error') return;
+      const location = message.location();
+      this.pushCapturedError({
+        message: message.text(),
+        line: location.lineNumber || undefined,
+        column: location.columnNumber || undefined,
+        source: 'console'
+      });
+    });
+
+    // Strudel reports eval and scheduler errors through its logger as "strudel.log" events
+    await this.page.addInitScript(() => {
+      (window as any).__strudelErrors = [];
+      document.addEventListener('strudel.log', (event: Event) => {
+        const { message, type } = (event as CustomEvent).detail || {};
+        if (type === 'error' || /^\[cyclist\] error/.test(message)) {
+          (window as any).__strudelErrors.push({ message });
+        }
+      });
+    });
+  }
+
+  /**
+   * Moves errors logged by Strudel inside the page into the captured error list
+   * @private
+   * @async
+   */
+  private async drainStrudelErrors(): Promise<void> {
+    if (!this.page) return;
+
+    try {
+      const logged: Array<{ message: string }> = await this.page.evaluate(() => {
+        const errors = (window as any).__strudelErrors || [];
+        (window as any).__strudelErrors = [];
+        return errors;
+      });
+      logged.forEach(({ message }) => this.pushCapturedError({ message, source: 'strudel' }));
+    } catch (error) {
+      console.error('❌ Could not read Strudel errors:', error);
+    }
+  }
+
+  /**
+   * Appends an error to the bounded captured error list
+   * @private
+   *
+   * @param {EvaluationError} error - Captured error.
+   */
+  private pushCapturedError(error: EvaluationError): void {
+    this.capturedErrors.push(error);
+    this.capturedErrorTotal++;
+    if (this.capturedErrors.length > MAX_CAPTURED_ERRORS) {
+      this.capturedErrors.splice(0, this.capturedErrors.length - MAX_CAPTURED_ERRORS);
     }
   }
 
+  /**
+   * Returns the errors captured after a given mark
+   * @private
+   *
+   * @param {number} mark - Value of capturedErrorTotal when capturing started.
+   * @returns {EvaluationError[]} Errors captured since the mark.
+   */
+  private errorsSince(mark: number): EvaluationError[] {
+    const count = Math.min(this.capturedErrorTotal - mark, this.capturedErrors.length);
+    return count > 0 ? this.capturedErrors.slice(-count) : [];
+  }
+
   /** 
    * @method startStrudel
    * @description Starts the Strudel REPL.
@@ -408,6 +1444,9 @@ export class PlaywrightManager {
         }
       });
 
+      if (success) {
+        this.setPlaying(true);
+      }
       return success;
     } catch (error) {
       console.error('❌ Failed to stop Strudel:', error);
@@ -456,6 +1495,9 @@ export class PlaywrightManager {
         }
       });
 
+      if (success) {
+        this.setPlaying(false);
+      }
       return success;
     } catch (error) {
       console.error('❌ Failed to stop Strudel:', error);
@@ -463,6 +1505,422 @@ export class PlaywrightManager {
     }
   }
 
+  /**
+   * Reads the tempo and position of the running scheduler
+   * @async
+   *
+   * @returns {Promise<TempoInfo>} Current tempo.
+   */
+  async getTempo(): Promise<TempoInfo> {
+    if (!this.isInitialized || !this.page) {
+      throw new Error('Playwright not initialized');
+    }
+
+    const { cps, cycle, started } = await this.page.evaluate(() => {
+      const scheduler = (document.querySelector('strudel-editor') as any)?.editor?.repl?.scheduler;
+      if (!scheduler) throw new Error('Strudel scheduler not available');
+      return { cps: scheduler.cps as number, cycle: scheduler.now() as number, started: !!scheduler.started };
+    });
+
+    return { cps, bpm: cps * 60 * BEATS_PER_CYCLE, cycle, started };
+  }
+
+  /**
+   * Sets the scheduler tempo without re-evaluating code
+   * @async
+   *
+   * @param {number} cps - Cycles per second.
+   * @returns {Promise<TempoInfo>} The new tempo.
+   */
+  async setTempo(cps: number): Promise<TempoInfo> {
+    if (!this.isInitialized || !this.page) {
+      throw new Error('Playwright not initialized');
+    }
+    if (!Number.isFinite(cps) || cps <= 0) {
+      throw new Error('Tempo must be a positive number of cycles per second');
+    }
+
+    // An explicit tempo cancels a pending nudge release
+    clearTimeout(this.nudgeTimer);
+    this.nudgeTimer = undefined;
+    this.nudgeBaseCps = undefined;
+
+    return this.applyTempo(cps);
+  }
+
+  /**
+   * Moves the tempo by a fraction of itself, for beat-matching
+   * @async
+   *
+   * @param {number} amount - Relative change, e.g. 0.01 for 1% faster, -0.01 for 1% slower.
+   * @param {number} durationMs - When given, the previous tempo comes back after this long. Untimed nudges
+   *   made meanwhile carry over to the tempo that comes back.
+   * @returns {Promise<TempoInfo>} The nudged tempo.
+   */
+  async nudgeTempo(amount: number, durationMs?: number): Promise<TempoInfo> {
+    if (!Number.isFinite(amount) || amount <= -1) {
+      throw new Error('Nudge must be a fraction greater than -1');
+    }
+
+    const { cps } = await this.getTempo();
+    const target = cps * (1 + amount);
+
+    if (durationMs && durationMs > 0) {
+      // While a timed nudge is pending the current tempo is already nudged, so
+      // the release has to go back to the tempo from before the first nudge
+      const base = this.nudgeBaseCps ?? cps;
+      const nudged = await this.setTempo(target);
+      this.nudgeBaseCps = base;
+      this.nudgeTimer = setTimeout(() => {
+        const release = this.nudgeBaseCps!;
+        this.nudgeTimer = undefined;
+        this.nudgeBaseCps = undefined;
+        this.applyTempo(release).catch(error => console.error('❌ Failed to release tempo nudge:', error));
+      }, durationMs);
+      return nudged;
+    }
+
+    // An untimed nudge during a timed one is a lasting change: it moves the
+    // tempo the pending release returns to by the same fraction
+    if (this.nudgeBaseCps !== undefined) {
+      this.nudgeBaseCps *= 1 + amount;
+      return this.applyTempo(target);
+    }
+    return this.setTempo(target);
+  }
+
+  /**
+   * Writes the tempo into the page's scheduler and publishes it
+   * @private
+   * @async
+   *
+   * @param {number} cps - Cycles per second.
+   * @returns {Promise<TempoInfo>} The new tempo.
+   */
+  private async applyTempo(cps: number): Promise<TempoInfo> {
+    await this.page!.evaluate((cps) => {
+      (document.querySelector('strudel-editor') as any).editor.repl.setCps(cps);
+    }, cps);
+
+    const tempo = await this.getTempo();
+    console.log(`⏱️ Tempo set to ${tempo.cps.toFixed(3)} cps (${tempo.bpm.toFixed(1)} bpm)`);
+    this.events?.emit('tempo:changed', { cps: tempo.cps, bpm: tempo.bpm });
+    return tempo;
+  }
+
+  /**
+   * Lists the `slider()` widgets of the evaluated code with their live values
+   * @async
+   *
+   * @returns {Promise<SliderInfo[]>} Sliders in source order.
+   */
+  async getSliders(): Promise<SliderInfo[]> {
+    if (!this.isInitialized || !this.page) {
+      throw new Error('Playwright not initialized');
+    }
+
+    const widgets: { from: number; value: string; min: number; max: number; step?: number }[] =
+      await this.page.evaluate(() => {
+        const editor = (document.querySelector('strudel-editor') as any)?.editor;
+        return (editor?.widgets ?? [])
+          .filter((widget: any) => widget.type === 'slider')
+          .map(({ from, value, min, max, step }: any) => ({ from, value, min, max, step }));
+      });
+    const values: Record<string, number> = await this.page.evaluate(() => ({ ...(window as any).sliderValues }));
+    const code = this.evaluatedCode ?? '';
+
+    return widgets.map(({ from, value, min, max, step }) => {
+      const id = `slider_${from}`;
+      const lineStart = code.lastIndexOf('\n', from - 1) + 1;
+      const name = code.slice(lineStart, from).match(/(?:const|let|var)\s+([\w$]+)\s*=\s*slider\($/)?.[1];
+      return {
+        id,
+        name,
+        value: values[id] ?? Number(value),
+        min,
+        max,
+        step,
+        ...offsetToPosition(code, from)
+      };
+    });
+  }
+
+  /**
+   * Moves a slider, as if it was dragged in the editor
+   * @async
+   *
+   * @param {string} target - Slider id (`slider_<offset>`) or the variable it is assigned to.
+   * @param {{ value?: number, delta?: number }} change - Absolute value or offset from the current value.
+   * @returns {Promise<SliderInfo>} The slider with its new value.
+   */
+  async setSlider(target: string, change: { value?: number; delta?: number }): Promise<SliderInfo> {
+    const slider = (await this.getSliders()).find(s => s.id === target || s.name === target);
+    if (!slider) {
+      throw new Error(`Unknown slider: ${target}`);
+    }
+
+    const requested = change.value ?? slider.value + (change.delta ?? 0);
+    if (!Number.isFinite(requested)) {
+      throw new Error('Slider value must be a number');
+    }
+    const value = Math.min(slider.max, Math.max(slider.min, requested));
+
+    await this.page!.evaluate(({ id, from, value }) => {
+      // Prefer the rendered widget: its input handler also rewrites the number in the code
+      const input = Array.from(document.querySelectorAll('strudel-editor .cm-slider input'))
+        .find((element: any) => element.originalFrom === from) as HTMLInputElement | undefined;
+      if (input) {
+        input.value = String(value);
+        input.dispatchEvent(new Event('input'));
+      } else {
+        // Widgets scrolled out of view are not in the DOM
+        window.postMessage({ type: 'cm-slider', value, id });
+      }
+    }, { id: slider.id, from: Number(slider.id.slice('slider_'.length)), value });
+
+    this.events?.emit('slider:changed', { id: slider.id, name: slider.name, value });
+    return { ...slider, value };
+  }
+
+  /**
+   * Starts recording the page's master output to a file
+   * @async
+   *
+   * @param {string} outputPath - File the WebM/Opus recording is written to.
+   * @returns {Promise<RecordingStatus>} The active recording.
+   */
+  async startRecording(outputPath: string): Promise<RecordingStatus> {
+    if (!this.isInitialized || !this.page) {
+      throw new Error('Playwright not initialized');
+    }
+    if (this.recording) {
+      throw new Error(`Already recording to ${this.recording.path}`);
+    }
+
+    this.recording = {
+      path: outputPath,
+      startedAt: new Date(),
+      stream: createWriteStream(outputPath),
+      bytes: 0
+    };
+
+    try {
+      await this.page.evaluate(timeslice => (window as any).__strudelRecorder.start(timeslice), RECORDING_TIMESLICE_MS);
+    } catch (error) {
+      await this.finishRecording();
+      throw error;
+    }
+
+    console.log(`🔴 Recording master output to ${outputPath}`);
+    this.events?.emit('recording:started', { path: outputPath });
+    return this.getRecordingStatus();
+  }
+
+  /**
+   * Stops the active recording and closes its file
+   * @async
+   *
+   * @returns {Promise<RecordingStatus | null>} The finished recording, or null when none was active.
+   */
+  async stopRecording(): Promise<RecordingStatus | null> {
+    if (!this.recording) return null;
+
+    try {
+      // Flushes the last chunk through the bridge before the file is closed
+      await this.page?.evaluate(() => (window as any).__strudelRecorder.stop());
+    } catch (error) {
+      console.error('❌ Failed to stop recorder cleanly:', error);
+    }
+
+    return this.finishRecording();
+  }
+
+  /**
+   * Closes the recording file, keeping whatever was captured
+   * @private
+   * @async
+   *
+   * @returns {Promise<RecordingStatus | null>} The finished recording, or null when none was active.
+   */
+  private async finishRecording(): Promise<RecordingStatus | null> {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    const status = this.getRecordingStatus();
+    this.recording = undefined;
+    await new Promise<void>(resolve => recording.stream.end(resolve));
+
+    console.log(`⏹️ Recording saved to ${recording.path} (${recording.bytes} bytes)`);
+    this.events?.emit('recording:stopped', { path: recording.path, bytes: recording.bytes });
+    return { ...status, recording: false };
+  }
+
+  /**
+   * Describes the active recording, if any
+   *
+   * @returns {RecordingStatus} Recording state.
+   */
+  getRecordingStatus(): RecordingStatus {
+    return this.recording
+      ? {
+        recording: true,
+        path: this.recording.path,
+        startedAt: this.recording.startedAt.toISOString(),
+        bytes: this.recording.bytes
+      }
+      : { recording: false, bytes: 0 };
+  }
+
+  /**
+   * Opens an extra Strudel page in the browser context, separate from the live REPL
+   * @private
+   * @async
+   *
+   * @param {Function} initScript - Optional script to run before the page loads.
+   * @returns {Promise<Page>} A page whose Strudel editor is ready.
+   */
+  private async openAuxiliaryPage(initScript?: () => void): Promise<Page> {
+    if (!this.isInitialized || !this.context) {
+      throw new Error('Playwright not initialized');
+    }
+
+    const page = await this.context.newPage();
+    try {
+      if (initScript) {
+        await page.addInitScript(initScript);
+      }
+      await this.navigateWithRetry(4, page);
+      await this.waitForStrudelReady(page);
+      return page;
+    } catch (error) {
+      await page.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Renders a number of cycles of a pattern to a WAV file, faster than real time
+   * @async
+   *
+   * Runs in its own page so the live REPL keeps playing: the page's AudioContext
+   * constructor is swapped for an OfflineAudioContext before superdough creates one.
+   *
+   * @param {string} code - Strudel code to render.
+   * @param {RenderOptions} options - Cycles and sample rate.
+   * @returns {Promise<RenderResult>} WAV bytes and render details, or the error.
+   */
+  async renderToWav(code: string, options: RenderOptions = {}): Promise<RenderResult> {
+    const { cycles = 4, sampleRate = 44_100 } = options;
+
+    const invalid = renderOptionsError(options);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    let page: Page | undefined;
+    try {
+      console.log(`🎚️ Rendering ${cycles} cycles offline...`);
+
+      page = await this.openAuxiliaryPage(() => {
+        const OriginalAudioContext = window.AudioContext;
+        const RenderAudioContext = function (...args: any[]) {
+          return (window as any).__strudelRenderContext ?? new OriginalAudioContext(...args);
+        };
+        RenderAudioContext.prototype = OriginalAudioContext.prototype;
+        (window as any).AudioContext = RenderAudioContext;
+      });
+
+      // The page is closed below either way, so a hung render only needs to be abandoned
+      const rendered = await this.withPageTimeout(page, page.evaluate(async ({ code, cycles, sampleRate, maxSeconds }) => {
+        const strudelEditor = document.querySelector('strudel-editor') as any;
+        const editor = strudelEditor.editor;
+        const scope = window as any;
+
+        // Sample maps and the Strudel globals are registered by prebake
+        await editor.prebaked;
+        const pattern = await editor.repl.evaluate(code, false);
+        const evalError = editor.repl.state.evalError;
+        if (evalError) {
+          throw new Error(String(evalError.message ?? evalError));
+        }
+
+        const cps = editor.repl.scheduler.cps;
+        const duration = cycles / cps;
+        if (duration > maxSeconds) {
+          throw new Error(`${cycles} cycles at ${cps} cps last ${duration.toFixed(0)}s; renders are limited to ${maxSeconds}s`);
+        }
+        const context = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+        scope.__strudelRenderContext = context;
+
+        // superdough creates its context lazily; make sure it picked ours up
+        await scope.initAudio();
+        if (scope.getAudioContext() !== context) {
+          throw new Error('Render page audio context was created before rendering started');
+        }
+
+        const haps = pattern.queryArc(0, cycles).filter((hap: any) => hap.hasOnset());
+        await Promise.all(haps.map((hap: any) => {
+          hap.ensureObjectValue();
+          return scope.superdough(hap.value, `=${hap.whole.begin / cps}`, hap.duration / cps, cps);
+        }));
+
+        const buffer: AudioBuffer = await context.startRendering();
+
+        // Encode as 16-bit PCM WAV
+        const channels = buffer.numberOfChannels;
+        const frames = buffer.length;
+        const view = new DataView(new ArrayBuffer(44 + frames * channels * 2));
+        const writeString = (offset: number, value: string) => {
+          for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+        };
+        writeString(0, 'RIFF');
+        view.setUint32(4, 36 + frames * channels * 2, true);
+        writeString(8, 'WAVE');
+        writeString(12, 'fmt ');
+        view.setUint32(16, 16, true);
+        view.setUint16(20, 1, true);
+        view.setUint16(22, channels, true);
+        view.setUint32(24, sampleRate, true);
+        view.setUint32(28, sampleRate * channels * 2, true);
+        view.setUint16(32, channels * 2, true);
+        view.setUint16(34, 16, true);
+        writeString(36, 'data');
+        view.setUint32(40, frames * channels * 2, true);
+
+        const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+        let offset = 44;
+        for (let i = 0; i < frames; i++) {
+          for (let c = 0; c < channels; c++) {
+            const sample = Math.max(-1, Math.min(1, data[c][i]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+            offset += 2;
+          }
+        }
+
+        // Ship the bytes back as base64, in chunks to keep String.fromCharCode happy
+        const bytes = new Uint8Array(view.buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return { wav: btoa(binary), cps, duration };
+      }, { code, cycles, sampleRate, maxSeconds: MAX_RENDER_SECONDS }), RENDER_TIMEOUT_MS);
+
+      console.log(`✅ Rendered ${rendered.duration.toFixed(2)}s of audio`);
+      return {
+        success: true,
+        wav: Buffer.from(rendered.wav, 'base64'),
+        cps: rendered.cps,
+        duration: rendered.duration
+      };
+    } catch (error: any) {
+      console.error('❌ Failed to render pattern:', error);
+      return { success: false, error: String(error?.message ?? error) };
+    } finally {
+      await page?.close().catch(() => undefined);
+    }
+  }
+
   /**
    * Debugs AudioWorklet and Strudel setup
    * @async
@@ -542,23 +2000,53 @@ export class PlaywrightManager {
     return this.isInitialized && !!this.browser && !!this.page;
   }
 
+  isPlaybackActive(): boolean {
+    return this.isPlaying;
+  }
+
+  /**
+  * Gets the code last evaluated in the REPL, as sent (mute/solo applied).
+  * @returns {string | undefined} The code, if any was evaluated.
+  */
+  getEvaluatedCode(): string | undefined {
+    return this.evaluatedCode;
+  }
+
   /**
   * Gets the current status of the PlaywrightManager.
-  * @returns {object} An object containing the current status of the PlaywrightManager.
+  * @async
+  * @returns {Promise<object>} The current status, with the live tempo and cycle once the REPL is up.
   */
-  getStatus() {
+  async getStatus() {
+    const tempo = this.isConnected()
+      ? await this.getTempo().catch(() => undefined)
+      : undefined;
+
     return {
       initialized: this.isInitialized,
       browserConnected: !!this.browser,
       pageReady: !!this.page,
+      playing: this.isPlaying,
+      recording: !!this.recording,
+      cps: tempo?.cps,
+      bpm: tempo?.bpm,
+      cycle: tempo?.cycle,
       strudelUrl: this.strudelUrl
     };
   }
 
   async cleanup(): Promise<void> {
     console.log('🧹 Cleaning up Playwright resources...');
+    this.isClosing = true;
+    clearTimeout(this.nudgeTimer);
 
     try {
+      await this.stopRecording();
+
+      const shadowPage = this.shadowPage;
+      this.shadowPage = undefined;
+      await shadowPage?.then(page => page.close(), () => undefined);
+
       if (this.page) {
         await this.page.close();
         this.page = undefined;
@@ -576,10 +2064,13 @@ export class PlaywrightManager {
 
       this.isInitialized = false;
       this.audioContextInitialized = false;
+      this.setPlaying(false);
       console.log('✅ Playwright cleanup completed');
 
     } catch (error) {
       console.error('❌ Error during Playwright cleanup:', error);
+    } finally {
+      this.isClosing = false;
     }
   }
 }
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Offline cache for `samples('github:...')` packs, stored content-addressed on disk.
+ * @author Zedro
+ * @module
+ *
+ * @requires path
+ * @requires fs/promises
+ */
+
+import path from "path";
+import { unlink } from "fs/promises";
+import type { EventBus } from "./server-event-bus";
+
+export interface CachedResource {
+  hash: string;        // sha256 of the body, also the blob file name
+  size: number;
+  contentType: string;
+  pack?: string;       // "user/repo/branch" the resource belongs to
+  cachedAt: string;
+}
+
+export interface CachedPack {
+  pack: string;
+  files: number;
+  size: number;
+  cachedAt: string;    // when the most recent file was cached
+}
+
+export interface PrefetchResult {
+  pack: string;
+  files: number;
+  cached: number;      // files that were already cached
+  bytes: number;       // bytes downloaded
+  failed: string[];
+}
+
+export interface CacheResponse {
+  body: Uint8Array;
+  contentType: string;
+  cached: boolean;     // served without touching the network
+}
+
+// Directory inside the working directory holding the index and the blobs
+export const CACHE_DIR = ".strudel-cache/samples";
+// Requests to this host are the ones `github:` sample maps resolve to
+export const GITHUB_RAW_URL = "https://raw.githubusercontent.com/";
+// Parallel downloads while prefetching a pack
+const PREFETCH_CONCURRENCY = 6;
+
+/**
+* Resolve a `github:user/repo[/branch]` shorthand the way Strudel does.
+*
+* @param {string} shorthand - The `github:` path.
+* @param {string} subpath - Path appended to the pack root.
+* @returns {string} - raw.githubusercontent.com URL.
+*/
+export function githubUrl(shorthand: string, subpath: string = ""): string {
+  let pack = shorthand.replace(/^github:/, "").replace(/\/$/, "");
+  if (pack.split("/").length === 2) {
+    // Strudel assumes main when no branch is given
+    pack += "/main";
+  }
+  return `${GITHUB_RAW_URL}${pack}/${subpath}`;
+}
+
+/**
+* Name the pack a raw.githubusercontent.com URL belongs to.
+*
+* @param {string} url - Resource URL.
+* @returns {string | undefined} - "user/repo/branch", or undefined for other hosts.
+*/
+export function packOf(url: string): string | undefined {
+  if (!url.startsWith(GITHUB_RAW_URL)) return undefined;
+  const [user, repo, branch] = url.slice(GITHUB_RAW_URL.length).split("/");
+  return user && repo && branch ? `${user}/${repo}/${branch}` : undefined;
+}
+
+/**
+* Find the `github:` packs loaded by `samples(...)` calls in a piece of code.
+*
+* @param {string} code - Strudel code.
+* @returns {string[]} - Packs as "user/repo/branch", without duplicates.
+*/
+export function findGithubPacks(code: string): string[] {
+  const packs = new Set<string>();
+  for (const match of code.matchAll(/samples\(\s*(['"`])(github:[^'"`]+)\1/g)) {
+    const pack = packOf(githubUrl(match[2]));
+    if (pack) packs.add(pack);
+  }
+  return [...packs];
+}
+
+/**
+* @class SampleCache
+* @description Serves sample maps and audio from disk once fetched, so `github:` packs work offline.
+*/
+export class SampleCache {
+  private cacheDir: string;
+  private events?: EventBus;
+  private index?: Record<string, CachedResource>;
+  private inflight: Map<string, Promise<CacheResponse>> = new Map();
+  private write: Promise<void> = Promise.resolve();
+
+  /**
+  * @constructor
+  * @description Constructs a new SampleCache instance.
+  *
+  * @param {string} workingDir - Directory the cache folder lives in.
+  * @param {EventBus} events - Optional bus to publish prefetches on.
+  */
+  constructor(workingDir: string = process.cwd(), events?: EventBus) {
+    this.cacheDir = path.join(workingDir, CACHE_DIR);
+    this.events = events;
+  }
+
+  /**
+  * Path of the blob holding a body.
+  * @private
+  */
+  private blobPath(hash: string): string {
+    return path.join(this.cacheDir, "blobs", hash);
+  }
+
+  /**
+  * Load the URL index, from disk the first time.
+  * @private
+  * @async
+  */
+  private async loadIndex(): Promise<Record<string, CachedResource>> {
+    if (!this.index) {
+      const file = Bun.file(path.join(this.cacheDir, "index.json"));
+      try {
+        this.index = (await file.exists()) ? await file.json() as Record<string, CachedResource> : {};
+      } catch (error) {
+        console.error("❌ Unreadable sample cache index, starting over:", error);
+        this.index = {};
+      }
+    }
+    return this.index;
+  }
+
+  /**
+  * Write the URL index to disk, one write at a time.
+  * @private
+  */
+  private persistIndex(): Promise<void> {
+    this.write = this.write.then(async () => {
+      await Bun.write(path.join(this.cacheDir, "index.json"), JSON.stringify(this.index ?? {}, null, 2));
+    }).catch(error => {
+      console.error("❌ Failed to save sample cache index:", error);
+    });
+    return this.write;
+  }
+
+  /**
+  * Whether a URL is served through the cache.
+  * @public
+  *
+  * @param {string} url - Request URL.
+  * @returns {boolean} - True for `github:` sample maps and audio.
+  */
+  handles(url: string): boolean {
+    return packOf(url) !== undefined;
+  }
+
+  /**
+  * Get a resource from the cache, downloading and storing it on a miss.
+  * @public
+  * @async
+  *
+  * @param {string} url - Resource URL.
+  * @param {string} pack - Pack to file the resource under; defaults to the pack of the URL.
+  * @returns {Promise<CacheResponse>} - The body and whether it came from disk.
+  * @throws {Error} - When the resource is not cached and cannot be downloaded.
+  */
+  async fetch(url: string, pack: string | undefined = packOf(url)): Promise<CacheResponse> {
+    const index = await this.loadIndex();
+    const entry = index[url];
+    if (entry) {
+      const blob = Bun.file(this.blobPath(entry.hash));
+      if (await blob.exists()) {
+        return { body: new Uint8Array(await blob.arrayBuffer()), contentType: entry.contentType, cached: true };
+      }
+      // Blob deleted behind our back: download it again
+      delete index[url];
+    }
+
+    // Several pages may ask for the same sample at once
+    let download = this.inflight.get(url);
+    if (!download) {
+      download = this.download(url, pack).finally(() => this.inflight.delete(url));
+      this.inflight.set(url, download);
+    }
+    return download;
+  }
+
+  /**
+  * Download a resource and store it.
+  * @private
+  * @async
+  */
+  private async download(url: string, pack?: string): Promise<CacheResponse> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    const hash = new Bun.CryptoHasher("sha256").update(body).digest("hex");
+    const contentType = response.headers.get("content-type") ?? "application/octet-stream";
+
+    const blob = Bun.file(this.blobPath(hash));
+    if (!(await blob.exists())) {
+      await Bun.write(blob, body);
+    }
+
+    const index = await this.loadIndex();
+    index[url] = { hash, size: body.byteLength, contentType, pack, cachedAt: new Date().toISOString() };
+    await this.persistIndex();
+
+    console.log(`📦 Cached ${url} (${body.byteLength} bytes)`);
+    return { body, contentType, cached: false };
+  }
+
+  /**
+  * List the cached packs.
+  * @public
+  * @async
+  *
+  * @returns {Promise<CachedPack[]>} - Packs with their file counts and sizes.
+  */
+  async list(): Promise<CachedPack[]> {
+    const packs = new Map<string, CachedPack>();
+    for (const entry of Object.values(await this.loadIndex())) {
+      const name = entry.pack ?? "other";
+      const pack = packs.get(name) ?? { pack: name, files: 0, size: 0, cachedAt: entry.cachedAt };
+      pack.files++;
+      pack.size += entry.size;
+      if (entry.cachedAt > pack.cachedAt) pack.cachedAt = entry.cachedAt;
+      packs.set(name, pack);
+    }
+    return [...packs.values()].sort((a, b) => a.pack.localeCompare(b.pack));
+  }
+
+  /**
+  * Download a pack's sample map and every sample it lists.
+  * @public
+  * @async
+  *
+  * @param {string} pack - "user/repo[/branch]", with or without the `github:` prefix.
+  * @returns {Promise<PrefetchResult>} - What was downloaded.
+  * @throws {Error} - When the sample map cannot be loaded.
+  */
+  async prefetch(pack: string): Promise<PrefetchResult> {
+    const mapUrl = githubUrl(pack, "strudel.json");
+    const name = packOf(mapUrl)!;
+    const map = JSON.parse(new TextDecoder().decode((await this.fetch(mapUrl, name)).body));
+
+    const urls = this.sampleUrls(map, map._base ?? githubUrl(name));
+    const result: PrefetchResult = { pack: name, files: urls.length, cached: 0, bytes: 0, failed: [] };
+    console.log(`📦 Prefetching github:${name} (${urls.length} files)`);
+
+    const queue = [...urls];
+    const worker = async () => {
+      for (let url = queue.shift(); url; url = queue.shift()) {
+        try {
+          const response = await this.fetch(url, name);
+          if (response.cached) result.cached++;
+          else result.bytes += response.body.byteLength;
+        } catch (error) {
+          console.error(`❌ Failed to cache ${url}:`, error);
+          result.failed.push(url);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker));
+
+    this.events?.emit("samples:cached", { pack: name, files: result.files, failed: result.failed.length });
+    return result;
+  }
+
+  /**
+  * Collect the sample URLs of a strudel.json sample map.
+  * @private
+  */
+  private sampleUrls(map: Record<string, any>, base: string): string[] {
+    const resolve = (value: string) => value.startsWith("github:") ? githubUrl(value) : value;
+    const urls = new Set<string>();
+
+    for (const [key, value] of Object.entries(map)) {
+      if (key === "_base") continue;
+      const bank = typeof value === "string" ? [value] : value;
+      if (typeof bank !== "object" || bank === null) continue;
+
+      const bankBase = resolve(bank._base ?? base);
+      const files = Array.isArray(bank)
+        ? bank
+        : Object.entries(bank).filter(([note]) => note !== "_base").flatMap(([, samples]) => samples);
+      for (const file of files) {
+        if (typeof file === "string") urls.add(bankBase + file);
+      }
+    }
+    return [...urls];
+  }
+
+  /**
+  * Remove a pack from the cache, deleting blobs no other pack uses.
+  * @public
+  * @async
+  *
+  * @param {string} pack - "user/repo[/branch]", with or without the `github:` prefix.
+  * @returns {Promise<{ files: number, size: number }>} - What was removed.
+  */
+  async evict(pack: string): Promise<{ files: number; size: number }> {
+    const name = packOf(githubUrl(pack)) ?? pack;
+    const index = await this.loadIndex();
+
+    const removed = Object.entries(index).filter(([, entry]) => (entry.pack ?? "other") === name);
+    for (const [url] of removed) {
+      delete index[url];
+    }
+
+    const inUse = new Set(Object.values(index).map(entry => entry.hash));
+    for (const hash of new Set(removed.map(([, entry]) => entry.hash))) {
+      if (!inUse.has(hash)) {
+        await unlink(this.blobPath(hash)).catch(() => undefined);
+      }
+    }
+    await this.persistIndex();
+
+    const size = removed.reduce((sum, [, entry]) => sum + entry.size, 0);
+    console.log(`🗑️ Evicted github:${name} (${removed.length} files)`);
+    return { files: removed.length, size };
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Local sample library: serves a samples directory and its strudel.json sample map.
+ * @author Zedro
+ * @module
+ *
+ * @requires path
+ */
+
+import path from "path";
+import type { FileManager } from "./server-file-manager";
+import type { EventBus } from "./server-event-bus";
+
+export interface SampleSound {
+  name: string;
+  files: string[];     // paths relative to the samples directory
+}
+
+export interface SampleLibraryStatus {
+  dir: string;
+  available: boolean;  // whether the directory exists
+  sounds: number;
+  files: number;
+}
+
+// Audio formats the browser can decode
+const AUDIO_EXTENSIONS = new Set([".wav", ".mp3", ".ogg", ".flac", ".aif", ".aiff", ".m4a"]);
+// Dropping a folder of files fires one watch event per file; rescan once they settle
+const RESCAN_DELAY_MS = 250;
+
+/**
+* Sound name of a sample file: its folder path with "/" replaced by "_",
+* or the file name for files at the top of the library.
+*
+* @param {string} file - Path relative to the samples directory.
+* @returns {string} - Sound name, as used in `s("...")`.
+*/
+export function soundName(file: string): string {
+  const dir = path.dirname(file);
+  if (dir === ".") {
+    return path.basename(file, path.extname(file));
+  }
+  return dir.split(path.sep).join("_");
+}
+
+/**
+* @class SampleLibrary
+* @description Scans a directory of audio files into a Strudel sample map and keeps it current.
+*/
+export class SampleLibrary {
+  private samplesDir: string;
+  private fileManager: FileManager;
+  private events?: EventBus;
+  private sounds: Map<string, string[]> = new Map();
+  private available = false;
+  private rescanTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+  * @constructor
+  * @description Constructs a new SampleLibrary instance.
+  *
+  * @param {string} samplesDir - Directory holding the samples.
+  * @param {FileManager} fileManager - Scans and watches the directory.
+  * @param {EventBus} events - Optional bus to publish library changes on.
+  */
+  constructor(samplesDir: string, fileManager: FileManager, events?: EventBus) {
+    this.samplesDir = path.resolve(samplesDir);
+    this.fileManager = fileManager;
+    this.events = events;
+  }
+
+  /**
+  * Scan the samples directory and watch it for new or removed files.
+  * @public
+  * @async
+  */
+  async start(): Promise<void> {
+    await this.scan();
+    if (!this.available) {
+      console.log(`💡 No samples directory at ${this.samplesDir}; create it to serve local samples`);
+      return;
+    }
+
+    this.fileManager.watchDirectory(this.samplesDir, (file) => {
+      if (!AUDIO_EXTENSIONS.has(path.extname(file).toLowerCase())) return;
+      clearTimeout(this.rescanTimer);
+      this.rescanTimer = setTimeout(() => {
+        this.scan().catch(error => console.error("❌ Failed to rescan samples:", error));
+      }, RESCAN_DELAY_MS);
+    });
+  }
+
+  /**
+  * Rebuild the sound list from the files on disk.
+  * @public
+  * @async
+  *
+  * @returns {Promise<SampleLibraryStatus>} - The library after the scan.
+  */
+  async scan(): Promise<SampleLibraryStatus> {
+    const sounds = new Map<string, string[]>();
+
+    try {
+      const files = await this.fileManager.scanPaths(this.samplesDir, ["**/*"]);
+      this.available = true;
+
+      for (const file of files) {
+        if (!AUDIO_EXTENSIONS.has(path.extname(file).toLowerCase())) continue;
+        const name = soundName(file);
+        sounds.set(name, [...(sounds.get(name) ?? []), file.split(path.sep).join("/")]);
+      }
+    } catch {
+      // Missing directory: serve an empty library
+      this.available = false;
+    }
+
+    // Variants are picked by index (`kick:2`), so keep them in a stable, natural order
+    for (const files of sounds.values()) {
+      files.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    }
+    this.sounds = new Map([...sounds].sort(([a], [b]) => a.localeCompare(b)));
+
+    const status = this.getStatus();
+    if (status.available) {
+      console.log(`🥁 Sample library: ${status.sounds} sounds, ${status.files} files`);
+      this.events?.emit("samples:changed", { sounds: status.sounds, files: status.files });
+    }
+    return status;
+  }
+
+  /**
+  * Build the strudel.json sample map.
+  * @public
+  *
+  * @param {string} baseUrl - URL the samples directory is served under, ending with "/".
+  * @returns {Record<string, string | string[]>} - Sample map for `samples(...)`.
+  */
+  getSampleMap(baseUrl: string): Record<string, string | string[]> {
+    return {
+      _base: baseUrl,
+      ...Object.fromEntries(this.sounds)
+    };
+  }
+
+  /**
+  * List the sounds of the library.
+  * @public
+  *
+  * @returns {SampleSound[]} - Sounds in name order.
+  */
+  list(): SampleSound[] {
+    return [...this.sounds].map(([name, files]) => ({ name, files }));
+  }
+
+  /**
+  * Get a sample file, refusing paths that leave the samples directory.
+  * @public
+  *
+  * @param {string} file - Path relative to the samples directory.
+  * @returns {BunFile | null} - The file, or null when the path is outside the library.
+  */
+  getFile(file: string): ReturnType<typeof Bun.file> | null {
+    const fullPath = path.resolve(this.samplesDir, file);
+    if (!fullPath.startsWith(this.samplesDir + path.sep)) {
+      return null;
+    }
+    return Bun.file(fullPath);
+  }
+
+  /**
+  * Describe the library.
+  * @public
+  *
+  * @returns {SampleLibraryStatus} - Directory and counts.
+  */
+  getStatus(): SampleLibraryStatus {
+    return {
+      dir: this.samplesDir,
+      available: this.available,
+      sounds: this.sounds.size,
+      files: [...this.sounds.values()].reduce((sum, files) => sum + files.length, 0)
+    };
+  }
+
+  /**
+  * Cancel a pending rescan. The directory watcher is closed by FileManager.
+  * @public
+  */
+  cleanup(): void {
+    clearTimeout(this.rescanTimer);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Finds the sample maps and sound names a piece of Strudel code needs, so they can be loaded ahead of evaluation.
+ * @author Zedro
+ * @module
+ *
+ * @requires acorn
+ */
+
+import { tokenizer, tokTypes } from "acorn";
+import type { Token } from "acorn";
+
+export interface SampleRequirements {
+  sampleMaps: string[];  // arguments of `samples('...')` calls
+  sounds: string[];      // candidate sound names, lowercase
+}
+
+// Characters that make up a sound name in mini-notation ("gm_lead_6_voice", "808bd", "breaks")
+const SOUND_NAME = /[a-z0-9_-]+/gi;
+
+/**
+* Collect the string contents of a piece of code, skipping comments.
+* Code that stops tokenizing halfway yields the strings found up to that point.
+*
+* @param {string} code - Strudel code.
+* @returns {string[]} - String and template literal contents.
+*/
+function stringLiterals(code: string): string[] {
+  const strings: string[] = [];
+  try {
+    for (const token of tokenizer(code, { ecmaVersion: "latest", allowReturnOutsideFunction: true })) {
+      if (token.type === tokTypes.string || token.type === tokTypes.template) {
+        // acorn's typings leave out the cooked value it sets on tokens
+        strings.push(String((token as Token & { value: unknown }).value));
+      }
+    }
+  } catch {
+    // Syntax error: the evaluation will report it
+  }
+  return strings;
+}
+
+/**
+* Find what a piece of code needs loaded: the sample maps of its `samples(...)` calls, and the words
+* of its strings that may be sound names. Words that turn out not to be sounds are ignored by the page.
+*
+* @param {string} code - Strudel code.
+* @returns {SampleRequirements} - Sample maps and candidate sound names.
+*/
+export function findSampleRequirements(code: string): SampleRequirements {
+  const sampleMaps = new Set<string>();
+  for (const match of code.matchAll(/samples\(\s*(['"`])([^'"`]+)\1/g)) {
+    sampleMaps.add(match[2]);
+  }
+
+  const sounds = new Set<string>();
+  for (const literal of stringLiterals(code)) {
+    for (const [word] of literal.matchAll(SOUND_NAME)) {
+      // Plain numbers are note or sample indices, never sound names
+      if (!/^\d+$/.test(word)) sounds.add(word.toLowerCase());
+    }
+  }
+
+  return { sampleMaps: [...sampleMaps], sounds: [...sounds] };
+}
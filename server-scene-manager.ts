@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Scene manager: an ordered set list of Strudel files for live shows.
+ * @author Zedro
+ * @module
+ *
+ * @requires path
+ */
+
+import path from "path";
+import { BEATS_PER_CYCLE, parseQuantize } from "./server-playwright-manager";
+import type { PlaywrightManager, Quantize, SendCodeResult } from "./server-playwright-manager";
+import type { FileManager } from "./server-file-manager";
+import type { TrackManager } from "./server-track-manager";
+import type { EventBus } from "./server-event-bus";
+
+/**
+* One piece of the set, as written in the project file.
+* A bare string is shorthand for `{ "file": "..." }`.
+*/
+export interface SceneConfig {
+  file: string;          // path relative to the working directory
+  name?: string;         // defaults to the file name without extension
+  cps?: number;
+  bpm?: number;          // alternative to cps, assuming BEATS_PER_CYCLE beats per cycle
+  quantize?: Quantize;   // switch point; defaults to the project's
+}
+
+export interface ProjectConfig {
+  quantize?: Quantize;
+  scenes: (SceneConfig | string)[];
+}
+
+export interface Scene {
+  index: number;         // 0-based position in the set list
+  name: string;
+  file: string;
+  cps?: number;
+  quantize?: Quantize;
+}
+
+export interface SceneSwitchResult extends SendCodeResult {
+  scene: Scene;
+}
+
+// Project file in the working directory holding the set list
+export const PROJECT_FILE = "strudel-project.json";
+
+/**
+* @class SceneManager
+* @description Loads the set list from the project file and switches between scenes.
+*/
+export class SceneManager {
+  private workingDir: string;
+  private fileManager: FileManager;
+  private trackManager: TrackManager;
+  private playwrightManager: PlaywrightManager;
+  private events?: EventBus;
+  private currentIndex?: number;
+  private tempoTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+  * @constructor
+  * @description Constructs a new SceneManager instance.
+  *
+  * @param {string} workingDir - Directory holding the project file.
+  * @param {FileManager} fileManager - Provides the scene files.
+  * @param {TrackManager} trackManager - Sends scene code to the REPL.
+  * @param {PlaywrightManager} playwrightManager - Sets scene tempos.
+  * @param {EventBus} events - Optional bus to publish scene changes on.
+  */
+  constructor(
+    workingDir: string,
+    fileManager: FileManager,
+    trackManager: TrackManager,
+    playwrightManager: PlaywrightManager,
+    events?: EventBus
+  ) {
+    this.workingDir = workingDir;
+    this.fileManager = fileManager;
+    this.trackManager = trackManager;
+    this.playwrightManager = playwrightManager;
+    this.events = events;
+  }
+
+  /**
+  * Read the set list. The project file is read on every call so edits apply without a restart.
+  * @public
+  * @async
+  *
+  * @returns {Promise<Scene[]>} - Scenes in set order.
+  * @throws {Error} - When the project file is missing or malformed.
+  */
+  async list(): Promise<Scene[]> {
+    const file = Bun.file(path.join(this.workingDir, PROJECT_FILE));
+    if (!(await file.exists())) {
+      throw new Error(`No ${PROJECT_FILE} in ${this.workingDir}`);
+    }
+
+    const project = await file.json() as ProjectConfig;
+    if (!Array.isArray(project.scenes)) {
+      throw new Error(`${PROJECT_FILE} must have a "scenes" array`);
+    }
+    const defaultQuantize = parseQuantize(project.quantize);
+
+    return project.scenes.map((entry, index) => {
+      const config: SceneConfig = typeof entry === "string" ? { file: entry } : entry;
+      if (!config.file) {
+        throw new Error(`Scene ${index + 1} in ${PROJECT_FILE} has no file`);
+      }
+      return {
+        index,
+        name: config.name ?? path.basename(config.file, path.extname(config.file)),
+        file: config.file,
+        cps: config.cps ?? (config.bpm ? config.bpm / 60 / BEATS_PER_CYCLE : undefined),
+        quantize: parseQuantize(config.quantize) ?? defaultQuantize
+      };
+    });
+  }
+
+  /**
+  * Get the scene that was switched to last.
+  * @public
+  * @async
+  *
+  * @returns {Promise<Scene | null>} - The current scene, or null before the first switch.
+  */
+  async current(): Promise<Scene | null> {
+    if (this.currentIndex === undefined) return null;
+    return (await this.list())[this.currentIndex] ?? null;
+  }
+
+  /**
+  * Switch to a scene.
+  * @public
+  * @async
+  *
+  * @param {number | string} target - 1-based position in the set list, or scene name.
+  * @returns {Promise<SceneSwitchResult>} - The evaluation result and the scene.
+  * @throws {Error} - When the scene or its file does not exist.
+  */
+  async goto(target: number | string): Promise<SceneSwitchResult> {
+    const scenes = await this.list();
+    const scene = typeof target === "number"
+      ? scenes[target - 1]
+      : scenes.find(s => s.name === target);
+    if (!scene) {
+      throw new Error(`Unknown scene: ${target}`);
+    }
+    return this.switchTo(scene);
+  }
+
+  /**
+  * Switch to the next scene; the first one when none is current.
+  * @public
+  * @async
+  */
+  async next(): Promise<SceneSwitchResult> {
+    const scenes = await this.list();
+    const index = this.currentIndex === undefined ? 0 : this.currentIndex + 1;
+    if (index >= scenes.length) {
+      throw new Error("Already at the last scene");
+    }
+    return this.switchTo(scenes[index]);
+  }
+
+  /**
+  * Switch to the previous scene.
+  * @public
+  * @async
+  */
+  async previous(): Promise<SceneSwitchResult> {
+    const scenes = await this.list();
+    const index = (this.currentIndex ?? 0) - 1;
+    if (index < 0) {
+      throw new Error("Already at the first scene");
+    }
+    return this.switchTo(scenes[index]);
+  }
+
+  /**
+  * Send a scene's file and apply its tempo at its switch point.
+  * @private
+  * @async
+  */
+  private async switchTo(scene: Scene): Promise<SceneSwitchResult> {
+    const code = await this.loadCode(scene.file);
+    const wasPlaying = this.playwrightManager.isPlaybackActive();
+
+    clearTimeout(this.tempoTimer);
+    if (scene.cps !== undefined && !wasPlaying) {
+      await this.playwrightManager.setTempo(scene.cps);
+    }
+
+    const result = await this.trackManager.send(code, { quantize: scene.quantize, source: scene.file });
+    if (!result.success) {
+      return { ...result, scene };
+    }
+
+    // Change tempo when the new scene takes over, not mid-bar of the old one
+    if (scene.cps !== undefined && wasPlaying) {
+      const tempo = await this.playwrightManager.getTempo();
+      const delayMs = result.cycle !== undefined
+        ? Math.max(0, (result.cycle - tempo.cycle) / tempo.cps * 1000)
+        : 0;
+      this.tempoTimer = setTimeout(() => {
+        this.playwrightManager.setTempo(scene.cps!)
+          .catch(error => console.error(`❌ Failed to set tempo of scene ${scene.name}:`, error));
+      }, delayMs);
+    }
+
+    this.currentIndex = scene.index;
+    console.log(`🎬 Scene ${scene.index + 1}: ${scene.name}`);
+    this.events?.emit("scene:changed", { index: scene.index, name: scene.name, file: scene.file, cycle: result.cycle });
+    return { ...result, scene };
+  }
+
+  /**
+  * Get a scene file's code from FileManager, adding the file when it was not discovered yet.
+  * @private
+  * @async
+  */
+  private async loadCode(file: string): Promise<string> {
+    let info = this.fileManager.getFile(file);
+    if (!info) {
+      const fullPath = path.join(this.workingDir, file);
+      if (!(await Bun.file(fullPath).exists())) {
+        throw new Error(`Scene file not found: ${file}`);
+      }
+      await this.fileManager.addFile(fullPath, file);
+      info = this.fileManager.getFile(file);
+    }
+    if (!info) {
+      throw new Error(`Scene file could not be loaded: ${file}`);
+    }
+    return info.content;
+  }
+
+  /**
+  * Cancel a pending scene tempo change.
+  * @public
+  */
+  cleanup(): void {
+    clearTimeout(this.tempoTimer);
+  }
+}
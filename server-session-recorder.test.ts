@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { SessionRecorder } from "./server-session-recorder";
+
+describe("SessionRecorder.startReplay", () => {
+  let workingDir: string;
+  let recorder: SessionRecorder;
+
+  beforeEach(async () => {
+    workingDir = await mkdtemp(path.join(tmpdir(), "strudel-session-"));
+    // Nothing reaches the browser or the tracks before the file is accepted
+    recorder = new SessionRecorder(workingDir, {} as any, {} as any, {} as any);
+  });
+
+  afterEach(async () => {
+    await rm(workingDir, { recursive: true, force: true });
+  });
+
+  test("only replays session files listed in the working directory", async () => {
+    const outside = path.join(path.dirname(workingDir), "strudel-session-outside.json");
+    await Bun.write(path.join(workingDir, "notes.json"), "{}");
+
+    for (const file of ["strudel-session-missing.json", "notes.json", outside, `../${path.basename(outside)}`]) {
+      await expect(recorder.startReplay(file)).rejects.toThrow(`Session not found: ${file}`);
+    }
+  });
+
+  test("rejects a listed file that is not a session", async () => {
+    await Bun.write(path.join(workingDir, "strudel-session-broken.json"), "{ not json");
+    expect(await recorder.listSessions()).toEqual(["strudel-session-broken.json"]);
+    await expect(recorder.startReplay("strudel-session-broken.json")).rejects.toThrow("Not a session file");
+  });
+});
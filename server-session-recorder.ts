@@ -0,0 +1,424 @@
+/**
+ * @fileoverview Performance recorder: logs a live session and replays it on the same timeline.
+ * @author Zedro
+ * @module
+ *
+ * @requires path
+ */
+
+import path from "path";
+import type { PlaywrightManager, Quantize } from "./server-playwright-manager";
+import type { TrackManager } from "./server-track-manager";
+import type { EventBus, StrudelEvent } from "./server-event-bus";
+
+interface SessionActionTiming {
+  t: number;           // milliseconds since the recording started
+  timestamp: string;
+  cycle?: number;      // scheduler position when the action happened
+}
+
+export type SessionActionData =
+  | { type: "send"; data: { code: string; quantize?: Quantize; at?: number } } // at: cycle the code took effect at
+  | { type: "hush"; data: Record<string, never> }
+  | { type: "start"; data: Record<string, never> }
+  | { type: "tempo"; data: { cps: number } }
+  | { type: "slider"; data: { id: string; value: number } };
+
+export type SessionAction = SessionActionTiming & SessionActionData;
+export type SessionActionType = SessionAction["type"];
+
+type SendAction = Extract<SessionAction, { type: "send" }>;
+
+export interface Session {
+  version: 1;
+  startedAt: string;
+  duration: number;    // milliseconds
+  initial: {
+    code?: string;     // code already playing when the recording started
+    cps?: number;
+    cycle?: number;    // scheduler position when the recording started
+    playing: boolean;
+  };
+  actions: SessionAction[];
+}
+
+export interface SessionStatus {
+  recording: boolean;
+  startedAt?: string;
+  actions: number;
+  replaying: boolean;
+  replayFile?: string;
+  replayIndex?: number;
+  replayTotal?: number;
+}
+
+interface ReplayAnchor {
+  recorded: number;    // a cycle of the recording
+  replayed: number;    // the matching cycle of the replay
+}
+
+interface ReplayState {
+  file: string;
+  index: number;
+  total: number;
+  aborted: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// Session files are written to the working directory with this prefix
+const SESSION_PREFIX = "strudel-session-";
+// Sends go out this long before their place on the timeline, so their cycle is not scheduled yet
+const REPLAY_SEND_LEAD_MS = 500;
+// A send whose cycle is closer than this to the scheduler position goes live right away instead
+const REPLAY_MIN_LEAD_CYCLES = 0.25;
+
+/**
+* @class SessionRecorder
+* @description Logs sends, hushes, tempo and slider changes from the event bus,
+* then drives PlaywrightManager and TrackManager through the same sequence on replay.
+*/
+export class SessionRecorder {
+  private workingDir: string;
+  private playwrightManager: PlaywrightManager;
+  private trackManager: TrackManager;
+  private events: EventBus;
+  private session?: Session;
+  private startTime = 0;
+  private pendingCycles: Promise<void>[] = [];
+  private unsubscribe?: () => void;
+  private replay?: ReplayState;
+
+  /**
+  * @constructor
+  * @description Constructs a new SessionRecorder instance.
+  *
+  * @param {string} workingDir - Directory session files are saved to and loaded from.
+  * @param {PlaywrightManager} playwrightManager - Provides the clock and replays actions.
+  * @param {TrackManager} trackManager - Replays sends, keeping mute/solo state and history.
+  * @param {EventBus} events - Bus the recorded actions are read from.
+  */
+  constructor(workingDir: string, playwrightManager: PlaywrightManager, trackManager: TrackManager, events: EventBus) {
+    this.workingDir = workingDir;
+    this.playwrightManager = playwrightManager;
+    this.trackManager = trackManager;
+    this.events = events;
+  }
+
+  /**
+  * Start logging actions.
+  * @public
+  * @async
+  *
+  * @returns {Promise<SessionStatus>} - Recorder state.
+  * @throws {Error} - When already recording.
+  */
+  async startRecording(): Promise<SessionStatus> {
+    if (this.session) {
+      throw new Error("Session recording already running");
+    }
+
+    const tempo = this.playwrightManager.isConnected()
+      ? await this.playwrightManager.getTempo().catch(() => undefined)
+      : undefined;
+
+    this.startTime = performance.now();
+    this.pendingCycles = [];
+    this.session = {
+      version: 1,
+      startedAt: new Date().toISOString(),
+      duration: 0,
+      initial: {
+        code: this.playwrightManager.isPlaybackActive() ? this.playwrightManager.getEvaluatedCode() : undefined,
+        cps: tempo?.cps,
+        cycle: tempo?.cycle,
+        playing: this.playwrightManager.isPlaybackActive()
+      },
+      actions: []
+    };
+    this.unsubscribe = this.events.subscribe(event => this.capture(event));
+
+    console.log("⏺️ Session recording started");
+    this.events.emit("session:recording", { recording: true });
+    return this.getStatus();
+  }
+
+  /**
+  * Stop logging and save the session to the working directory.
+  * @public
+  * @async
+  *
+  * @returns {Promise<{ path: string, session: Session }>} - Where the session was saved.
+  * @throws {Error} - When not recording.
+  */
+  async stopRecording(): Promise<{ path: string; session: Session }> {
+    const session = this.session;
+    if (!session) {
+      throw new Error("No session recording running");
+    }
+
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.session = undefined;
+
+    await Promise.all(this.pendingCycles);
+    session.duration = Math.round(performance.now() - this.startTime);
+
+    const stamp = session.startedAt.replace(/[:.]/g, "-");
+    const sessionPath = path.join(this.workingDir, `${SESSION_PREFIX}${stamp}.json`);
+    await Bun.write(sessionPath, JSON.stringify(session, null, 2));
+
+    console.log(`💾 Session saved to ${sessionPath} (${session.actions.length} actions)`);
+    this.events.emit("session:recording", { recording: false, path: sessionPath });
+    return { path: sessionPath, session };
+  }
+
+  /**
+  * Turn a bus event into a session action.
+  * @private
+  */
+  private capture(event: StrudelEvent): void {
+    const session = this.session;
+    if (!session) return;
+
+    // Note where the latest send actually took effect, which is what replay aims for
+    if (event.type === "code:evaluated") {
+      const { success, cycle } = (event as StrudelEvent<"code:evaluated">).data;
+      const send = [...session.actions].reverse().find((action): action is SendAction => action.type === "send");
+      if (send && success && cycle !== undefined && send.data.at === undefined) {
+        send.data.at = cycle;
+      }
+      return;
+    }
+
+    let entry: SessionActionData;
+    switch (event.type) {
+      case "code:sent": {
+        const { code, quantize } = (event as StrudelEvent<"code:sent">).data;
+        entry = { type: "send", data: { code, ...(quantize !== undefined && { quantize }) } };
+        break;
+      }
+      case "playback:stopped":
+        entry = { type: "hush", data: {} };
+        break;
+      case "playback:started":
+        entry = { type: "start", data: {} };
+        break;
+      case "tempo:changed":
+        entry = { type: "tempo", data: { cps: (event as StrudelEvent<"tempo:changed">).data.cps } };
+        break;
+      case "slider:changed": {
+        const { id, value } = (event as StrudelEvent<"slider:changed">).data;
+        entry = { type: "slider", data: { id, value } };
+        break;
+      }
+      default:
+        return;
+    }
+
+    const action: SessionAction = {
+      t: Math.round(performance.now() - this.startTime),
+      timestamp: event.timestamp,
+      ...entry
+    };
+    session.actions.push(action);
+
+    // The scheduler position comes from the page, so it is filled in shortly after
+    if (this.playwrightManager.isConnected()) {
+      this.pendingCycles.push(
+        this.playwrightManager.getTempo()
+          .then(tempo => { action.cycle = tempo.cycle; })
+          .catch(() => undefined)
+      );
+    }
+  }
+
+  /**
+  * List the session files in the working directory.
+  * @public
+  * @async
+  *
+  * @returns {Promise<string[]>} - File names, oldest first.
+  */
+  async listSessions(): Promise<string[]> {
+    const glob = new Bun.Glob(`${SESSION_PREFIX}*.json`);
+    const files: string[] = [];
+    for await (const file of glob.scan({ cwd: this.workingDir })) {
+      files.push(file);
+    }
+    return files.sort();
+  }
+
+  /**
+  * Replay a session file in the background, on its original timeline. Sends land
+  * on the same cycles, counted from where the replay started.
+  * @public
+  * @async
+  *
+  * @param {string} file - Session file name, as listed by listSessions().
+  * @param {number} speed - Playback rate of the timeline (2 = twice as fast).
+  * @returns {Promise<SessionStatus>} - Recorder state once the replay started.
+  * @throws {Error} - When a replay is running or the file is not a session in the working directory.
+  */
+  async startReplay(file: string, speed: number = 1): Promise<SessionStatus> {
+    if (this.replay) {
+      throw new Error(`Already replaying ${this.replay.file}`);
+    }
+    if (!(speed > 0)) {
+      throw new Error("Replay speed must be positive");
+    }
+
+    // Only the recordings in the working directory, never an arbitrary path
+    if (!(await this.listSessions()).includes(file)) {
+      throw new Error(`Session not found: ${file}`);
+    }
+
+    const session = await Bun.file(path.join(this.workingDir, file)).json().catch(() => undefined) as Session | undefined;
+    if (session?.version !== 1 || !Array.isArray(session.actions)) {
+      throw new Error(`Not a session file: ${file}`);
+    }
+
+    const replay: ReplayState = { file, index: 0, total: session.actions.length, aborted: false };
+    this.replay = replay;
+    console.log(`▶️ Replaying ${file} (${replay.total} actions)`);
+    this.events.emit("session:replay", { state: "started", file });
+
+    this.runReplay(session, speed, replay)
+      .then(() => {
+        console.log(`✅ Replay of ${file} ${replay.aborted ? "stopped" : "finished"}`);
+        this.events.emit("session:replay", { state: replay.aborted ? "stopped" : "finished", file });
+      })
+      .catch(error => {
+        console.error(`❌ Replay of ${file} failed:`, error);
+        this.events.emit("session:replay", { state: "failed", file, error: String(error?.message ?? error) });
+      })
+      .finally(() => {
+        if (this.replay === replay) this.replay = undefined;
+      });
+
+    return this.getStatus();
+  }
+
+  /**
+  * Stop the running replay.
+  * @public
+  *
+  * @returns {boolean} - Whether a replay was running.
+  */
+  stopReplay(): boolean {
+    if (!this.replay) return false;
+
+    this.replay.aborted = true;
+    clearTimeout(this.replay.timer);
+    this.replay = undefined;
+    return true;
+  }
+
+  /**
+  * Drive PlaywrightManager through the session actions.
+  * @private
+  * @async
+  */
+  private async runReplay(
+    session: Session,
+    speed: number,
+    replay: ReplayState
+  ): Promise<void> {
+    // Restore the state the recording started from
+    if (session.initial.cps !== undefined) {
+      await this.playwrightManager.setTempo(session.initial.cps);
+    }
+    if (session.initial.code) {
+      await this.trackManager.send(session.initial.code);
+    }
+
+    // Recorded cycles map onto the replay's clock from this pair of positions
+    let anchor: ReplayAnchor | undefined;
+    if (session.initial.cycle !== undefined && this.playwrightManager.isPlaybackActive()) {
+      anchor = { recorded: session.initial.cycle, replayed: (await this.playwrightManager.getTempo()).cycle };
+    }
+
+    const start = performance.now();
+    for (const action of session.actions) {
+      const lead = action.type === "send" ? REPLAY_SEND_LEAD_MS : 0;
+      const wait = action.t / speed - lead - (performance.now() - start);
+      if (wait > 0) {
+        await new Promise<void>(resolve => { replay.timer = setTimeout(resolve, wait); });
+      }
+      if (replay.aborted) return;
+
+      anchor = await this.replayAction(action, speed, anchor);
+      replay.index++;
+    }
+  }
+
+  /**
+  * Quantization that puts a recorded send on its cycle of the replay.
+  * @private
+  * @async
+  */
+  private async replayQuantize(action: SendAction, speed: number, anchor?: ReplayAnchor): Promise<Quantize | undefined> {
+    const at = action.data.at;
+    if (!anchor || at === undefined) {
+      return action.data.quantize;
+    }
+
+    const target = anchor.replayed + (at - anchor.recorded) / speed;
+    const { cycle } = await this.playwrightManager.getTempo();
+    // Running late, e.g. after a slow preload: better now than a cycle that already played
+    return target - cycle > REPLAY_MIN_LEAD_CYCLES ? { at: target } : undefined;
+  }
+
+  /**
+  * Perform one recorded action.
+  * @private
+  * @async
+  *
+  * @returns {Promise<ReplayAnchor | undefined>} - The anchor, set by the first send that started playback.
+  */
+  private async replayAction(action: SessionAction, speed: number, anchor?: ReplayAnchor): Promise<ReplayAnchor | undefined> {
+    switch (action.type) {
+      case "send": {
+        const quantize = await this.replayQuantize(action, speed, anchor);
+        const result = await this.trackManager.send(action.data.code, { quantize });
+        if (!anchor && result.success && result.cycle !== undefined && action.data.at !== undefined) {
+          return { recorded: action.data.at, replayed: result.cycle };
+        }
+        break;
+      }
+      case "hush":
+        await this.playwrightManager.stopStrudel();
+        break;
+      case "start":
+        // Successful sends start playback on their own
+        if (!this.playwrightManager.isPlaybackActive()) {
+          await this.playwrightManager.startStrudel();
+        }
+        break;
+      case "tempo":
+        await this.playwrightManager.setTempo(action.data.cps);
+        break;
+      case "slider":
+        await this.playwrightManager.setSlider(action.data.id, { value: action.data.value });
+        break;
+    }
+    return anchor;
+  }
+
+  /**
+  * Describe the recorder and replay state.
+  * @public
+  *
+  * @returns {SessionStatus} - Recorder state.
+  */
+  getStatus(): SessionStatus {
+    return {
+      recording: !!this.session,
+      startedAt: this.session?.startedAt,
+      actions: this.session?.actions.length ?? 0,
+      replaying: !!this.replay,
+      replayFile: this.replay?.file,
+      replayIndex: this.replay?.index,
+      replayTotal: this.replay?.total
+    };
+  }
+}
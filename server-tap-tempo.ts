@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Tap tempo detection.
+ * @author Zedro
+ * @module
+ */
+
+// A pause longer than this starts a new series of taps
+const TAP_RESET_MS = 2000;
+// Only the most recent taps are averaged, so the tempo follows the tapper
+const MAX_TAPS = 8;
+
+/**
+* @class TapTempo
+* @description Turns a series of taps into a tempo in beats per minute.
+*/
+export class TapTempo {
+  private taps: number[] = [];
+
+  /**
+  * Register a tap.
+  * @public
+  *
+  * @param {number} now - Tap time in milliseconds.
+  * @returns {{ taps: number, bpm?: number }} - Taps in the current series and,
+  * from the second tap on, the tempo they describe.
+  */
+  tap(now: number = Date.now()): { taps: number; bpm?: number } {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && now - last > TAP_RESET_MS) {
+      this.taps = [];
+    }
+
+    this.taps.push(now);
+    if (this.taps.length > MAX_TAPS) {
+      this.taps.shift();
+    }
+
+    if (this.taps.length < 2) {
+      return { taps: this.taps.length };
+    }
+
+    const interval = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+    return {
+      taps: this.taps.length,
+      bpm: 60_000 / interval
+    };
+  }
+
+  /**
+  * Forget the current series of taps.
+  * @public
+  */
+  reset(): void {
+    this.taps = [];
+  }
+}
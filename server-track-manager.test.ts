@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import type { PlaywrightManager } from "./server-playwright-manager";
+import { TrackManager, blockOffsetMap, parseTracks } from "./server-track-manager";
+
+describe("parseTracks", () => {
+  test("finds labelled top-level blocks with their lines", () => {
+    const code = 'setcps(1)\n\nDRUMS: s("bd sd")\n\nBASS: note("c2 e2")\n  .s("sawtooth")\n';
+    const tracks = parseTracks(code);
+
+    expect(tracks.map(track => track.name)).toEqual(["DRUMS", "BASS"]);
+    expect(tracks[0]).toMatchObject({ label: "DRUMS", line: 3, endLine: 3, sourceMuted: false });
+    expect(tracks[1]).toMatchObject({ label: "BASS", line: 5, endLine: 6 });
+    expect(code.slice(tracks[0].start, tracks[0].labelEnd)).toBe("DRUMS");
+    expect(code.slice(tracks[1].start, tracks[1].end)).toBe('BASS: note("c2 e2")\n  .s("sawtooth")');
+  });
+
+  test("numbers anonymous $ blocks", () => {
+    const tracks = parseTracks('$: s("bd")\n$: s("hh")\n');
+    expect(tracks.map(track => track.name)).toEqual(["$1", "$2"]);
+  });
+
+  test("strips mute underscores from the name", () => {
+    const tracks = parseTracks('_DRUMS: s("bd")\nBASS_: note("c2")\nKEYS: note("c4")\n');
+    expect(tracks.map(track => [track.name, track.label, track.sourceMuted])).toEqual([
+      ["DRUMS", "_DRUMS", true],
+      ["BASS", "BASS_", true],
+      ["KEYS", "KEYS", false]
+    ]);
+  });
+
+  test("ignores labels that are not at the top level", () => {
+    expect(parseTracks('stack(s("bd"))\nif (true) { INNER: s("hh") }\n')).toEqual([]);
+  });
+
+  test("throws on code that does not parse", () => {
+    expect(() => parseTracks('DRUMS: s("bd"')).toThrow(SyntaxError);
+  });
+});
+
+describe("blockOffsetMap", () => {
+  const source = 'DRUMS: s("bd sd")\nBASS: note("c2")\n';
+
+  test("maps offsets unchanged between identical code", () => {
+    const map = blockOffsetMap(source, source);
+    expect(map(0)).toBe(0);
+    expect(map(25)).toBe(25);
+  });
+
+  test("follows block bodies across relabelling and reordering", () => {
+    const rendered = 'BASS: note("c2")\n_DRUMS: s("bd sd")\n';
+    const map = blockOffsetMap(source, rendered);
+    const sd = source.indexOf("sd");
+    const c2 = source.indexOf("c2");
+    expect(map(sd)).toBe(rendered.indexOf("sd"));
+    expect(map(c2)).toBe(rendered.indexOf("c2"));
+  });
+
+  test("has no counterpart for labels, changed blocks and code outside blocks", () => {
+    const edited = 'DRUMS: s("bd hh")\nBASS: note("c2")\n';
+    const map = blockOffsetMap(source, edited);
+    expect(map(0)).toBeUndefined();
+    expect(map(source.indexOf("sd"))).toBeUndefined();
+    expect(map(source.length - 1)).toBeUndefined();
+    expect(map(source.indexOf("c2"))).toBe(edited.indexOf("c2"));
+  });
+
+  test("maps nothing when either side does not parse", () => {
+    expect(blockOffsetMap(source, 'DRUMS: s("bd"')(10)).toBeUndefined();
+  });
+});
+
+describe("TrackManager.evaluateBlock", () => {
+  // Stands in for the browser: every send succeeds and is kept for inspection
+  function fakeTracks() {
+    const sent: string[] = [];
+    const playwright = {
+      setHighlightListener: () => {},
+      sendCodeToStrudel: async (code: string) => {
+        sent.push(code);
+        return { success: true, status: "evaluated", errors: [] };
+      }
+    };
+    return { tracks: new TrackManager(playwright as unknown as PlaywrightManager), sent };
+  }
+
+  const live = '$: s("bd")\n\n$: s("hh")\n';
+
+  test("replaces the anonymous block at the same place", async () => {
+    const { tracks, sent } = fakeTracks();
+    await tracks.send(live);
+    await tracks.evaluateBlock('$: s("bd")\n\n$: s("hh*2")\n', 3);
+    expect(sent.at(-1)).toBe('$: s("bd")\n\n$: s("hh*2")\n');
+  });
+
+  test("adds a new anonymous block instead of replacing one", async () => {
+    const { tracks, sent } = fakeTracks();
+    await tracks.send(live);
+    await tracks.evaluateBlock('$: s("bd")\n\n$: s("hh")\n\n$: s("cp")\n', 5);
+    expect(sent.at(-1)).toBe('$: s("bd")\n\n$: s("hh")\n\n$: s("cp")\n');
+  });
+
+  test("refuses when anonymous blocks above the cursor were added or removed", async () => {
+    const { tracks, sent } = fakeTracks();
+    await tracks.send(live);
+    await expect(tracks.evaluateBlock('$: s("cp")\n\n$: s("bd")\n\n$: s("hh*2")\n', 5)).rejects.toThrow("no clear counterpart");
+    await expect(tracks.evaluateBlock('$: s("hh*2")\n', 1)).rejects.toThrow("no clear counterpart");
+    expect(sent).toEqual([live]);
+    expect(tracks.getDocument()).toBe(live);
+  });
+});
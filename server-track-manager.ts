@@ -0,0 +1,442 @@
+/**
+ * @fileoverview Track manager for labelled Strudel blocks (mute, solo, per-block evaluation).
+ * @author Zedro
+ * @module
+ *
+ * @requires acorn
+ */
+
+import { parse } from "acorn";
+import type { LabeledStatement, Node } from "acorn";
+import type { PlaywrightManager, SendCodeOptions, SendCodeResult, HighlightRange } from "./server-playwright-manager";
+import { offsetToPosition } from "./server-pattern-evaluator";
+import type { EventBus } from "./server-event-bus";
+import { SCRATCH_SOURCE } from "./server-history-manager";
+import type { HistoryManager } from "./server-history-manager";
+
+/**
+* A labelled top-level block such as `DRUMS: stack(...)`.
+*/
+export interface ParsedTrack {
+  name: string;        // label without mute underscores; anonymous `$:` blocks are `$1`, `$2`, …
+  label: string;       // label exactly as written in the code
+  start: number;       // character offset of the block
+  end: number;
+  labelEnd: number;    // character offset right after the label identifier
+  line: number;        // 1-based
+  endLine: number;     // 1-based, inclusive
+  sourceMuted: boolean; // muted in the code itself with `_NAME:` or `NAME_:`
+}
+
+export interface TrackSendOptions extends SendCodeOptions {
+  source?: string;     // file or buffer the code came from, for the history; "scratch" when omitted
+  rollbackOf?: number; // history entry being restored
+}
+
+export interface Track extends ParsedTrack {
+  muted: boolean;   // muted from the server
+  soloed: boolean;
+  playing: boolean; // whether the block is heard once mute/solo are applied
+}
+
+/**
+* Parse the labelled top-level blocks of Strudel code.
+*
+* @param {string} code - Strudel code.
+* @returns {ParsedTrack[]} - Blocks in source order.
+* @throws {SyntaxError} - When the code is not valid JavaScript.
+*/
+export function parseTracks(code: string): ParsedTrack[] {
+  const program = parse(code, {
+    ecmaVersion: "latest",
+    sourceType: "module",
+    allowAwaitOutsideFunction: true,
+    locations: true
+  });
+
+  let anonymous = 0;
+  return program.body
+    .filter((node: Node): node is LabeledStatement => node.type === "LabeledStatement")
+    .map((statement) => {
+      const label = statement.label.name;
+      const base = label.replace(/^_+|_+$/g, "");
+      return {
+        name: base === "$" ? `$${++anonymous}` : base,
+        label,
+        start: statement.start,
+        end: statement.end,
+        labelEnd: statement.label.end,
+        line: statement.loc!.start.line,
+        endLine: statement.loc!.end.line,
+        sourceMuted: base !== label
+      };
+    });
+}
+
+/**
+* Map character offsets from one version of Strudel code to another, block by block.
+* Offsets after the label of a block whose body is unchanged move with it; labels may differ,
+* as they do once mute and solo are applied. Everything else has no counterpart.
+*
+* @param {string} from - Code the offsets point into.
+* @param {string} to - Code to map them to.
+* @returns {Function} - Maps an offset, or returns undefined when it has no counterpart.
+*/
+export function blockOffsetMap(from: string, to: string): (offset: number) => number | undefined {
+  if (from === to) return offset => offset;
+
+  let fromTracks: ParsedTrack[];
+  let toTracks: ParsedTrack[];
+  try {
+    fromTracks = parseTracks(from);
+    toTracks = parseTracks(to);
+  } catch {
+    return () => undefined;
+  }
+
+  const blocks = fromTracks.flatMap(track => {
+    const body = from.slice(track.labelEnd, track.end);
+    const match = toTracks.find(other => other.name === track.name && to.slice(other.labelEnd, other.end) === body);
+    return match ? [{ start: track.labelEnd, end: track.end, shift: match.labelEnd - track.labelEnd }] : [];
+  });
+  return offset => {
+    const block = blocks.find(block => offset >= block.start && offset < block.end);
+    return block ? offset + block.shift : undefined;
+  };
+}
+
+/**
+* @class TrackManager
+* @description Keeps the document playing in Strudel and rewrites its labels to
+* mute or solo blocks, so a single block can change while the rest keep playing.
+*/
+export class TrackManager {
+  private playwrightManager: PlaywrightManager;
+  private events?: EventBus;
+  private history?: HistoryManager;
+  private document?: string;
+  private source?: string;
+  private sourceCode?: string;  // code of the source as it was sent, which the live document came from
+  private toSource: (offset: number) => number | undefined = () => undefined;
+  private muted: Set<string> = new Set();
+  private soloed: Set<string> = new Set();
+
+  /**
+  * @constructor
+  * @description Constructs a new TrackManager instance.
+  *
+  * @param {PlaywrightManager} playwrightManager - Sends code to the Strudel REPL.
+  * @param {EventBus} events - Optional bus to publish track changes on.
+  * @param {HistoryManager} history - Optional history every sent document is recorded in.
+  */
+  constructor(playwrightManager: PlaywrightManager, events?: EventBus, history?: HistoryManager) {
+    this.playwrightManager = playwrightManager;
+    this.events = events;
+    this.history = history;
+
+    this.playwrightManager.setHighlightListener(ranges => this.highlight(ranges));
+  }
+
+  /**
+  * Get the code last sent to Strudel, before mute/solo are applied.
+  * @public
+  *
+  * @returns {string | undefined} - The live document, if any.
+  */
+  getDocument(): string | undefined {
+    return this.document;
+  }
+
+  /**
+  * List the blocks of the live document (or of the given code) with their state.
+  * @public
+  *
+  * @param {string} code - Code to list instead of the live document.
+  * @returns {Track[]} - The blocks in source order.
+  */
+  list(code: string | undefined = this.document): Track[] {
+    if (!code) return [];
+
+    return parseTracks(code).map(track => ({
+      ...track,
+      muted: this.muted.has(track.name),
+      soloed: this.soloed.has(track.name),
+      playing: this.isPlaying(track)
+    }));
+  }
+
+  /**
+  * Apply mute and solo to code by rewriting block labels.
+  * Only label identifiers change, so line numbers of errors are preserved.
+  * @public
+  *
+  * @param {string} code - Strudel code.
+  * @returns {string} - Code as it should be evaluated.
+  */
+  render(code: string): string {
+    let tracks: ParsedTrack[];
+    try {
+      tracks = parseTracks(code);
+    } catch {
+      // Let Strudel report the syntax error
+      return code;
+    }
+
+    let rendered = code;
+    // Rewrite from the end so earlier offsets stay valid
+    for (const track of [...tracks].reverse()) {
+      const base = track.label.replace(/^_+|_+$/g, "");
+      const label = this.isPlaying(track) ? base : `_${base}`;
+      if (label !== track.label) {
+        rendered = rendered.slice(0, track.start) + label + rendered.slice(track.labelEnd);
+      }
+    }
+    return rendered;
+  }
+
+  /**
+  * Make code the live document and evaluate it with mute/solo applied.
+  * @public
+  * @async
+  *
+  * @param {string} code - Strudel code.
+  * @param {TrackSendOptions} options - Optional quantization and history details.
+  * @returns {Promise<SendCodeResult>} - The evaluation result.
+  */
+  async send(code: string, options: TrackSendOptions = {}): Promise<SendCodeResult> {
+    return this.sendDocument(code, options, line => line);
+  }
+
+  /**
+  * Evaluate a document and publish its errors against the lines of the source they came from.
+  * @private
+  * @async
+  *
+  * @param {string} code - Strudel code.
+  * @param {TrackSendOptions} options - Optional quantization and history details.
+  * @param {Function} sourceLine - Maps a line of the document to the matching line of the source.
+  * @param {string} sourceCode - Code of the source the document was built from.
+  * @returns {Promise<SendCodeResult>} - The evaluation result.
+  */
+  private async sendDocument(
+    code: string,
+    options: TrackSendOptions,
+    sourceLine: (line: number) => number,
+    sourceCode: string = code
+  ): Promise<SendCodeResult> {
+    const { source = SCRATCH_SOURCE, rollbackOf, ...sendOptions } = options;
+    const rendered = this.render(code);
+    const result = await this.playwrightManager.sendCodeToStrudel(rendered, sendOptions);
+
+    await this.history?.record({
+      code,
+      source,
+      success: result.success,
+      errors: result.errors.map(error => error.message),
+      rollbackOf
+    });
+
+    this.events?.emit("code:diagnostics", {
+      source,
+      success: result.success,
+      errors: result.errors.map(error => error.line ? { ...error, line: sourceLine(error.line) } : error)
+    });
+
+    if (result.success) {
+      this.document = code;
+      this.source = source;
+      this.sourceCode = sourceCode;
+      const toDocument = blockOffsetMap(rendered, code);
+      const toSource = blockOffsetMap(code, sourceCode);
+      this.toSource = offset => {
+        const documentOffset = toDocument(offset);
+        return documentOffset === undefined ? undefined : toSource(documentOffset);
+      };
+      this.emitChanged();
+    }
+    return result;
+  }
+
+  /**
+  * Re-evaluate the block of code that contains a line, leaving every other
+  * block of the live document as it is.
+  * @public
+  * @async
+  *
+  * @param {string} code - Code holding the block (usually the whole buffer).
+  * @param {number} line - 1-based line inside the block.
+  * @param {TrackSendOptions} options - Optional quantization and history details.
+  * @returns {Promise<SendCodeResult & { track?: string }>} - The evaluation result.
+  */
+  async evaluateBlock(
+    code: string,
+    line: number,
+    options: TrackSendOptions = {}
+  ): Promise<SendCodeResult & { track?: string }> {
+    const block = parseTracks(code).find(track => line >= track.line && line <= track.endLine);
+    if (!block) {
+      throw new Error(`No labelled block at line ${line}`);
+    }
+
+    // Nothing playing yet: the whole buffer becomes the live document
+    if (!this.document) {
+      return { ...(await this.send(code, options)), track: block.name };
+    }
+
+    const text = code.slice(block.start, block.end);
+    const current = block.name.startsWith("$")
+      ? this.anonymousCounterpart(code, block, this.document)
+      : parseTracks(this.document).find(track => track.name === block.name);
+    const document = current
+      ? this.document.slice(0, current.start) + text + this.document.slice(current.end)
+      : `${this.document.trimEnd()}\n\n${text}\n`;
+
+    // Errors inside the block point back at the buffer; the rest of the live document is not in it
+    const documentLine = current ? current.line : document.trimEnd().split("\n").length - (block.endLine - block.line);
+    const sourceLine = (line: number) => {
+      const offset = line - documentLine;
+      return offset >= 0 && offset <= block.endLine - block.line ? block.line + offset : block.line;
+    };
+
+    return { ...(await this.sendDocument(document, options, sourceLine, code)), track: block.name };
+  }
+
+  /**
+  * Find the live block an anonymous `$:` block of the buffer replaces. Their numbers
+  * only count position, so the other anonymous blocks have to match the live ones
+  * in order; then the block takes the place of the one live block left over, or is
+  * new when none is.
+  * @private
+  *
+  * @returns {ParsedTrack | undefined} - The live block, or undefined for a new block.
+  * @throws {Error} - When the other anonymous blocks differ from the live ones.
+  */
+  private anonymousCounterpart(code: string, block: ParsedTrack, document: string): ParsedTrack | undefined {
+    const body = (source: string, track: ParsedTrack) => source.slice(track.labelEnd, track.end);
+    const others = parseTracks(code)
+      .filter(track => track.name.startsWith("$") && track.name !== block.name)
+      .map(track => body(code, track));
+    const live = parseTracks(document).filter(track => track.name.startsWith("$"));
+    const index = Number(block.name.slice(1)) - 1;
+
+    const matches = (bodies: string[]) =>
+      bodies.length === others.length && bodies.every((text, i) => text === others[i]);
+    const liveBodies = live.map(track => body(document, track));
+    if (matches(liveBodies)) {
+      return undefined;
+    }
+    if (index < live.length && matches(liveBodies.filter((_, i) => i !== index))) {
+      return live[index];
+    }
+    throw new Error(`Anonymous blocks differ from the live ones, so ${block.name} at line ${block.line} has no clear counterpart; label it or send the whole buffer`);
+  }
+
+  /**
+  * Mute or unmute a block and re-evaluate the live document.
+  * @public
+  * @async
+  *
+  * @param {string} name - Block name.
+  * @param {boolean} muted - Whether the block should be muted.
+  * @param {SendCodeOptions} options - Optional quantization.
+  * @returns {Promise<SendCodeResult>} - The evaluation result.
+  */
+  async setMuted(name: string, muted: boolean, options: SendCodeOptions = {}): Promise<SendCodeResult> {
+    return this.setFlag(this.muted, name, muted, options);
+  }
+
+  /**
+  * Solo or unsolo a block and re-evaluate the live document.
+  * While any block is soloed, only soloed blocks are heard.
+  * @public
+  * @async
+  *
+  * @param {string} name - Block name.
+  * @param {boolean} soloed - Whether the block should be soloed.
+  * @param {SendCodeOptions} options - Optional quantization.
+  * @returns {Promise<SendCodeResult>} - The evaluation result.
+  */
+  async setSoloed(name: string, soloed: boolean, options: SendCodeOptions = {}): Promise<SendCodeResult> {
+    return this.setFlag(this.soloed, name, soloed, options);
+  }
+
+  /**
+  * Add a block to or remove it from the mute or solo set and re-evaluate the live document.
+  * When the evaluation fails the audio is unchanged, so the set is restored too.
+  * @private
+  * @async
+  */
+  private async setFlag(flags: Set<string>, name: string, on: boolean, options: SendCodeOptions): Promise<SendCodeResult> {
+    this.assertTrack(name);
+    const was = flags.has(name);
+    const apply = (value: boolean) => value ? flags.add(name) : flags.delete(name);
+
+    apply(on);
+    let result: SendCodeResult | undefined;
+    try {
+      result = await this.sendDocument(this.document!, { ...options, source: this.source }, line => line, this.sourceCode);
+      return result;
+    } finally {
+      if (!result?.success) apply(was);
+    }
+  }
+
+  /**
+  * Whether a block is heard once mute and solo are applied.
+  * @private
+  */
+  private isPlaying(track: ParsedTrack): boolean {
+    if (this.soloed.size > 0) {
+      return this.soloed.has(track.name);
+    }
+    return !track.sourceMuted && !this.muted.has(track.name);
+  }
+
+  /**
+  * Ensure a block exists in the live document.
+  * @private
+  * @throws {Error} - When nothing is playing or the block is unknown.
+  */
+  private assertTrack(name: string): void {
+    if (!this.document) {
+      throw new Error("No code has been sent to Strudel yet");
+    }
+    if (!parseTracks(this.document).some(track => track.name === name)) {
+      throw new Error(`Unknown track: ${name}`);
+    }
+  }
+
+  /**
+  * Publish the code locations that are sounding as ranges of the source the live document came from.
+  * @private
+  *
+  * @param {HighlightRange[]} ranges - Offsets into the evaluated code.
+  */
+  private highlight(ranges: HighlightRange[]): void {
+    const sourceCode = this.sourceCode;
+    if (!this.events || sourceCode === undefined) return;
+
+    const located = ranges.flatMap(range => {
+      const start = this.toSource(range.start);
+      const last = this.toSource(range.end - 1);
+      if (start === undefined || last === undefined) return [];
+
+      const from = offsetToPosition(sourceCode, start);
+      const to = offsetToPosition(sourceCode, last + 1);
+      return [{ start, end: last + 1, line: from.line, column: from.column, endLine: to.line, endColumn: to.column }];
+    });
+    this.events.emit("playback:highlight", { source: this.source, ranges: located });
+  }
+
+  /**
+  * Publish the current track list.
+  * @private
+  */
+  private emitChanged(): void {
+    this.events?.emit("tracks:changed", {
+      tracks: this.list().map(({ name, line, endLine, muted, soloed, playing }) => ({
+        name, line, endLine, muted, soloed, playing
+      }))
+    });
+  }
+}
@@ -9,14 +9,36 @@
  * @requires server-file-manager
  * @requires server-neovim-manager
  * @requires server-playwright-manager
+ * @requires server-event-bus
+ * @requires server-pattern-evaluator
+ * @requires server-track-manager
+ * @requires server-tap-tempo
+ * @requires server-history-manager
+ * @requires server-session-recorder
+ * @requires server-scene-manager
+ * @requires server-sample-library
+ * @requires server-sample-cache
+ * @requires server-linter
  * @requires Server from bun
  */
 
 import path from "path";
 import { FileManager } from "./server-file-manager";
 import { NeovimManager } from "./server-neovim-manager";
-import { PlaywrightManager } from "./server-playwright-manager";
-import type { Server } from "bun";
+import type { EvaluationOutcome } from "./server-neovim-manager";
+import { PlaywrightManager, BEATS_PER_CYCLE, parseQuantize, renderOptionsError } from "./server-playwright-manager";
+import type { Quantize, SendCodeResult } from "./server-playwright-manager";
+import { EventBus } from "./server-event-bus";
+import { PatternEvaluator, MAX_QUERY_CYCLES } from "./server-pattern-evaluator";
+import { TrackManager } from "./server-track-manager";
+import { TapTempo } from "./server-tap-tempo";
+import { HistoryManager } from "./server-history-manager";
+import { SessionRecorder } from "./server-session-recorder";
+import { SceneManager } from "./server-scene-manager";
+import { SampleLibrary } from "./server-sample-library";
+import { SampleCache, findGithubPacks } from "./server-sample-cache";
+import { Linter } from "./server-linter";
+import type { Server, ServerWebSocket } from "bun";
 
 // Import HTML template
 const htmlTemplate: string = await Bun.file("./strudel-template.html").text();
@@ -25,12 +47,18 @@ interface ServerConfig {
   port: number;
   workingDir: string;
   staticFilesDir?: string;
+  samplesDir?: string;
+  preloadTimeoutMs?: number;
+  neovimAddresses?: string[];  // extra instances to connect to, as "address" or "name=address"
   playwright?: {
     headless: boolean;
     autoStart: boolean;
   };
 }
 
+// Pub/sub topic every /ws client is subscribed to
+const EVENTS_TOPIC = "strudel-events";
+
 /**
  * @class StrudelServer
  * @desription Handles file serving and API endpoints
@@ -40,6 +68,16 @@ export class StrudelServer {
   private fileManager: FileManager;
   private neovimManager: NeovimManager;
   private playwrightManager: PlaywrightManager;
+  private events: EventBus;
+  private patternEvaluator: PatternEvaluator;
+  private trackManager: TrackManager;
+  private tapTempo: TapTempo;
+  private historyManager: HistoryManager;
+  private sessionRecorder: SessionRecorder;
+  private sceneManager: SceneManager;
+  private sampleLibrary: SampleLibrary;
+  private sampleCache: SampleCache;
+  private linter: Linter;
   private server?: Server;
 
   /**
@@ -57,15 +95,134 @@ export class StrudelServer {
       },
       ...config
     };
+    this.config.samplesDir ??= path.join(this.config.workingDir, "samples");
 
     // Initialize managers
-    this.fileManager = new FileManager(this.config.workingDir);
-    this.neovimManager = new NeovimManager(this.fileManager, this.config.workingDir);
-    this.playwrightManager = new PlaywrightManager(`http://localhost:${this.config.port}`);
+    this.events = new EventBus();
+    this.fileManager = new FileManager(this.config.workingDir, this.events);
+    this.neovimManager = new NeovimManager(this.fileManager, this.config.workingDir, this.events);
+    this.sampleCache = new SampleCache(this.config.workingDir, this.events);
+    this.playwrightManager = new PlaywrightManager(`http://localhost:${this.config.port}`, {
+      events: this.events,
+      sampleCache: this.sampleCache,
+      preloadTimeoutMs: this.config.preloadTimeoutMs
+    });
+    this.patternEvaluator = new PatternEvaluator(this.playwrightManager);
+    this.linter = new Linter(this.patternEvaluator);
+    this.historyManager = new HistoryManager(this.config.workingDir, this.events);
+    this.trackManager = new TrackManager(this.playwrightManager, this.events, this.historyManager);
+    this.tapTempo = new TapTempo();
+    this.sessionRecorder = new SessionRecorder(this.config.workingDir, this.playwrightManager, this.trackManager, this.events);
+    this.sceneManager = new SceneManager(
+      this.config.workingDir,
+      this.fileManager,
+      this.trackManager,
+      this.playwrightManager,
+      this.events
+    );
+    this.sampleLibrary = new SampleLibrary(this.config.samplesDir, this.fileManager, this.events);
+
+    // Forward every event to connected WebSocket clients
+    this.events.subscribe((event) => {
+      this.server?.publish(EVENTS_TOPIC, JSON.stringify(event));
+    });
+    this.registerNeovimHandlers();
+    this.neovimManager.setEvaluator((file, code) => this.evaluateBuffer(file, code));
 
     this.fetch = this.fetch.bind(this);
   }
 
+  /**
+  * @method registerNeovimHandlers
+  * @description Serves the editor's main actions over the Neovim RPC channel, with the same replies as their HTTP endpoints
+  * @private
+  */
+  private registerNeovimHandlers(): void {
+    // strudel_send(code, { file?, quantize?, preloadTimeout?, safe? })
+    this.neovimManager.setRequestHandler("strudel_send", async (code: string, options: Record<string, any> = {}) => {
+      if (!code) {
+        throw new Error("No code provided");
+      }
+      const quantize = parseQuantize(options.quantize);
+      const preloadTimeoutMs = options.preloadTimeout == null ? undefined : Number(options.preloadTimeout);
+      if (preloadTimeoutMs !== undefined && !(preloadTimeoutMs >= 0)) {
+        throw new Error(`Invalid preloadTimeout: ${options.preloadTimeout}`);
+      }
+
+      const result = await this.trackManager.send(code, {
+        quantize,
+        preloadTimeoutMs,
+        safe: options.safe === true,
+        source: options.file ? this.relativePath(options.file) : undefined
+      });
+      return { ...result, message: this.sendMessage(result, quantize) };
+    });
+
+    this.neovimManager.setRequestHandler("strudel_start", async () => {
+      const success = await this.playwrightManager.startStrudel();
+      return { success, message: success ? "Started Strudel playback" : "Failed to start playback" };
+    });
+
+    this.neovimManager.setRequestHandler("strudel_hush", async () => {
+      const success = await this.playwrightManager.stopStrudel();
+      return { success, message: success ? "Stopped Strudel playback" : "Failed to stop playback" };
+    });
+
+    this.neovimManager.setRequestHandler("strudel_status", () => this.playwrightManager.getStatus());
+
+    // strudel_tempo() reads the tempo, strudel_tempo(bpm) sets it
+    this.neovimManager.setRequestHandler("strudel_tempo", async (bpm?: number) => ({
+      success: true,
+      ...(bpm == null
+        ? await this.playwrightManager.getTempo()
+        : await this.playwrightManager.setTempo(Number(bpm) / 60 / BEATS_PER_CYCLE))
+    }));
+  }
+
+  /**
+  * @method evaluateBuffer
+  * @description Evaluates a buffer in save or live mode, once the linter finds no syntax or mini-notation errors
+  * @private
+  * @async
+  * @param {string} file - Buffer path
+  * @param {string} code - Buffer text
+  * @returns {Promise<EvaluationOutcome>} Whether the code was evaluated
+  */
+  private async evaluateBuffer(file: string, code: string): Promise<EvaluationOutcome> {
+    const source = this.relativePath(file);
+    const lint = await this.linter.lint(code);
+    if (!lint.success) {
+      // Half-typed code stays out of the live pattern; its errors show up like evaluation errors
+      this.events.emit("code:diagnostics", {
+        source,
+        success: false,
+        errors: lint.diagnostics
+          .filter(diagnostic => diagnostic.severity === "error")
+          .map(diagnostic => ({ message: diagnostic.message, line: diagnostic.line, column: diagnostic.column, source: "evaluate" as const }))
+      });
+      return "syntax-error";
+    }
+
+    const result = await this.trackManager.send(code, { source });
+    return result.success ? "evaluated" : "failed";
+  }
+
+  /**
+  * @method sendMessage
+  * @description Describes the outcome of sending code
+  * @private
+  * @param {SendCodeResult} result - Result of the send
+  * @param {Quantize} quantize - Quantization the code was sent with
+  * @returns {string} Message
+  */
+  private sendMessage(result: SendCodeResult, quantize?: Quantize): string {
+    return result.success
+      ? `Code evaluated by Strudel${quantize && result.cycle !== undefined ? `, taking effect at cycle ${result.cycle}` : ""}`
+      : result.status === "rejected"
+        ? "Safe send rejected the code; the live pattern keeps playing"
+        : "Strudel failed to evaluate code";
+  }
+
   // CORS headers
   /** 
   * @method getCorsHeaders
@@ -74,13 +231,40 @@ export class StrudelServer {
   * @returns {Object} CORS headers
   */
   private getCorsHeaders(): Record<string, string> {
+    // Other sites may read state, never change it
     return {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type, Authorization",
     };
   }
 
+  /**
+  * @method isTrustedOrigin
+  * @description Whether a request may change server state or follow the event stream: it comes from the
+  * integration's own page, or from a client that sends no Origin (curl, Neovim). Browsers send an Origin with every cross-site POST, even the
+  * "simple" ones that skip the preflight, so any page the performer has open could otherwise send code.
+  * @private
+  * @param {Request} request - Request object
+  * @returns {boolean} True when the request may change state
+  */
+  private isTrustedOrigin(request: Request): boolean {
+    const origin = request.headers.get("Origin");
+    // Compared with fixed hosts rather than the Host header, which a rebinding DNS name controls
+    return !origin || [`http://localhost:${this.config.port}`, `http://127.0.0.1:${this.config.port}`].includes(origin);
+  }
+
+  /**
+  * @method relativePath
+  * @description Maps a file path to the working-directory-relative key files are tracked by
+  * @private
+  * @param {string} file - Absolute or relative path
+  * @returns {string} Relative path
+  */
+  private relativePath(file: string): string {
+    return path.isAbsolute(file) ? path.relative(this.config.workingDir, file) : file;
+  }
+
   // Static file serving with proper MIME types
   /**
   * @method serveStaticFile
@@ -233,12 +417,103 @@ export class StrudelServer {
   * @returns {Promise<Response>} Response
   */
   private async handleNeovimAPI(request: Request, url: URL): Promise<Response> {
-    // Connect
-    if (url.pathname === "/api/neovim/connect" && request.method === "POST") {
-      const success = await this.neovimManager.connectToNeovim();
+    // Connect or register: { address: "/path/to/socket" | "host:port", name?, activate? }, plus { pid, cwd } when registering
+    const connect = url.pathname.match(/^\/api\/neovim\/(connect|register)$/);
+    if (connect && request.method === "POST") {
+      const { address, name, activate, pid, cwd } = await request.json().catch(() => ({}));
+      if (!address) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: "No Neovim address provided"
+        }), {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      const success = connect[1] === "register"
+        ? await this.neovimManager.register({ address, name, activate, pid, cwd })
+        : await this.neovimManager.connectToNeovim({ address, name, activate });
       return new Response(JSON.stringify({
         success,
-        message: success ? "Connected to Neovim" : "Failed to connect to Neovim"
+        message: success ? `Connected to Neovim at ${address}` : "Failed to connect to Neovim",
+        instances: this.neovimManager.listInstances()
+      }), {
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    // Unregister: { name?, address? }; sent by Neovim as it exits
+    if (url.pathname === "/api/neovim/unregister" && request.method === "POST") {
+      const { name, address } = await request.json().catch(() => ({}));
+      const found = await this.neovimManager.unregister({ name, address });
+      return new Response(JSON.stringify({
+        success: found,
+        error: found ? undefined : "Unknown Neovim instance",
+        instances: this.neovimManager.listInstances()
+      }), {
+        status: found ? 200 : 404,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    // Automatic evaluation: GET lists the buffers, POST { file, mode: "off" | "save" | "live" } sets one
+    if (url.pathname === "/api/neovim/evaluation") {
+      try {
+        if (request.method === "POST") {
+          const { file, mode } = await request.json();
+          if (!file) {
+            return new Response(JSON.stringify({
+              success: false,
+              error: "No file provided"
+            }), {
+              status: 400,
+              headers: {
+                "Content-Type": "application/json",
+                ...this.getCorsHeaders()
+              }
+            });
+          }
+          this.neovimManager.setEvaluationMode(file, mode);
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          modes: this.neovimManager.listEvaluationModes()
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message ?? String(error)
+        }), {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
+    // List connections
+    if (url.pathname === "/api/neovim/instances" && request.method === "GET") {
+      return new Response(JSON.stringify({
+        success: true,
+        instances: this.neovimManager.listInstances()
       }), {
         headers: {
           "Content-Type": "application/json",
@@ -247,6 +522,55 @@ export class StrudelServer {
       });
     }
 
+    // Pick the instance buffers are read from, or close a connection
+    const action = url.pathname.match(/^\/api\/neovim\/(active|disconnect)$/);
+    if (action && request.method === "POST") {
+      try {
+        const { name } = await request.json();
+        if (!name) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "No instance name provided"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        let found = true;
+        if (action[1] === "active") {
+          await this.neovimManager.setActive(name);
+        } else {
+          found = await this.neovimManager.disconnect(name);
+        }
+        return new Response(JSON.stringify({
+          success: found,
+          error: found ? undefined : `Unknown Neovim instance: ${name}`,
+          instances: this.neovimManager.listInstances()
+        }), {
+          status: found ? 200 : 404,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message ?? String(error)
+        }), {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
     // Status
     if (url.pathname === "/api/neovim/status") {
       return new Response(JSON.stringify(this.neovimManager.getStatus()), {
@@ -288,7 +612,7 @@ export class StrudelServer {
     if (url.pathname === "/api/browser/send-code" && request.method === "POST") {
       try {
         const body = await request.json();
-        const { code } = body;
+        const { code, file } = body;
 
         // Handling empty code
         if (!code) {
@@ -304,12 +628,50 @@ export class StrudelServer {
           });
         }
 
-        // Send code
-        const success = await this.playwrightManager.sendCodeToStrudel(code);
+        // Optional quantization: now, cycle, N cycles or { at }
+        let quantize: Quantize | undefined;
+        try {
+          quantize = parseQuantize(body.quantize);
+        } catch (error: any) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: error.message
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        // Optional preload timeout in milliseconds; 0 evaluates without waiting for samples
+        const preloadTimeoutMs = body.preloadTimeout === undefined ? undefined : Number(body.preloadTimeout);
+        if (preloadTimeoutMs !== undefined && !(preloadTimeoutMs >= 0)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: `Invalid preloadTimeout: ${body.preloadTimeout}`
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        // Send code; with safe, only once it evaluated cleanly in the shadow page
+        const result = await this.trackManager.send(code, {
+          quantize,
+          preloadTimeoutMs,
+          safe: body.safe === true,
+          source: file ? this.relativePath(file) : undefined
+        });
         return new Response(JSON.stringify({
-          success,
-          message: success ? "Code sent to Strudel" : "Failed to send code"
+          ...result,
+          message: this.sendMessage(result, quantize)
         }), {
+          status: result.success ? 200 : 422,
           headers: {
             "Content-Type": "application/json",
             ...this.getCorsHeaders()
@@ -357,9 +719,41 @@ export class StrudelServer {
       });
     }
 
-    // Get Playwright Browser Status
-    if (url.pathname === "/api/browser/status") {
-      return new Response(JSON.stringify(this.playwrightManager.getStatus()), {
+    // Record the live master output to a timestamped file
+    if (url.pathname === "/api/browser/record/start" && request.method === "POST") {
+      try {
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const outputPath = path.join(this.config.workingDir, `strudel-session-${stamp}.webm`);
+        const status = await this.playwrightManager.startRecording(outputPath);
+        return new Response(JSON.stringify({
+          success: true,
+          ...status
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: String(error?.message ?? error)
+        }), {
+          status: 409,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
+    if (url.pathname === "/api/browser/record/stop" && request.method === "POST") {
+      const status = await this.playwrightManager.stopRecording();
+      return new Response(JSON.stringify(status
+        ? { success: true, ...status }
+        : { success: false, error: "Not recording" }), {
+        status: status ? 200 : 409,
         headers: {
           "Content-Type": "application/json",
           ...this.getCorsHeaders()
@@ -367,50 +761,87 @@ export class StrudelServer {
       });
     }
 
-    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
-  }
+    if (url.pathname === "/api/browser/record") {
+      return new Response(JSON.stringify(this.playwrightManager.getRecordingStatus()), {
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
 
-  /**
-  * @method handleCurlAPI
-  * @description Handles cURL API endpoints
-  * @private
-  * @async
-  * @param {Request} request - Request object
-  * @param {URL} url - URL object
-  * @returns {Promise<Response>} Response
-  */
-  private async handleCurlAPI(request: Request, url: URL): Promise<Response> {
-    // Send Current Buffer
-    if (url.pathname === "/api/send-current-buffer" && request.method === "POST") {
+    // Check code in the shadow page without sending it live
+    if (url.pathname === "/api/browser/validate" && request.method === "POST") {
+      let body: any;
       try {
-        const body = await request.text();
-        const success = await this.playwrightManager.sendCodeToStrudel(body);
+        body = await request.json();
+      } catch (error) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `Invalid JSON body: ${error}`
+        }), {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
 
-        return new Response(success ? "✅ Code sent to Strudel" : "❌ Failed to send code", {
-          status: success ? 200 : 500,
+      const { code, cycles } = body ?? {};
+      if (!code) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: "No code provided"
+        }), {
+          status: 400,
           headers: {
-            "Content-Type": "text/plain",
+            "Content-Type": "application/json",
             ...this.getCorsHeaders()
           }
         });
-      } catch (error) {
-        return new Response(`❌ Error: ${error}`, {
-          status: 500,
+      }
+
+      // Queried cycles are capped like pattern queries, so one request cannot keep the shadow page busy
+      const count = cycles === undefined ? undefined : Number(cycles);
+      if (count !== undefined && !(count > 0)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `cycles must be a positive number: ${cycles}`
+        }), {
+          status: 400,
           headers: {
-            "Content-Type": "text/plain",
+            "Content-Type": "application/json",
             ...this.getCorsHeaders()
           }
         });
       }
+
+      const result = await this.playwrightManager.validateCode(code, count === undefined ? undefined : Math.min(count, MAX_QUERY_CYCLES));
+      return new Response(JSON.stringify(result), {
+        status: result.success ? 200 : 422,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
     }
 
-    // Stop Strudel
-    if (url.pathname === "/api/hush" && request.method === "POST") {
-      const success = await this.playwrightManager.stopStrudel();
-      return new Response(success ? "⏹️ Stopped Strudel" : "❌ Failed to stop", {
-        status: success ? 200 : 500,
+    // Progress of the sample preload of the latest send
+    if (url.pathname === "/api/browser/preload") {
+      return new Response(JSON.stringify(this.playwrightManager.getPreloadStatus()), {
         headers: {
-          "Content-Type": "text/plain",
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    // Get Playwright Browser Status
+    if (url.pathname === "/api/browser/status") {
+      return new Response(JSON.stringify(await this.playwrightManager.getStatus()), {
+        headers: {
+          "Content-Type": "application/json",
           ...this.getCorsHeaders()
         }
       });
@@ -420,25 +851,1178 @@ export class StrudelServer {
   }
 
   /**
-  * @method handleHealthAPI "/health"
-  * @description Handles health API endpoint
+  * @method handlePatternAPI "/api/pattern"
+  * @description Handles pattern inspection and rendering endpoints
   * @private
   * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
   * @returns {Promise<Response>} Response
   */
-  private async handleHealthAPI(): Promise<Response> {
-    const stats = this.fileManager.getStats();
+  private async handlePatternAPI(request: Request, url: URL): Promise<Response> {
+    // Query haps without playing audio
+    if (url.pathname === "/api/pattern/query" && request.method === "POST") {
+      try {
+        const body = await request.json();
+        const { file, from = 0, to = 1 } = body;
+        let { code } = body;
 
-    return new Response(JSON.stringify({
-      status: "ok",
-      timestamp: new Date().toISOString(),
-      neovim: this.neovimManager.isConnected(),
-      browser: this.playwrightManager.isConnected(),
-      files: {
-        count: stats.totalFiles,
+        // Resolve code from a tracked file when no code is given
+        if (!code && file) {
+          code = this.fileManager.getFile(file)?.content;
+        }
+
+        if (!code) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: file ? `File not found: ${file}` : "No code provided"
+          }), {
+            status: file ? 404 : 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const result = await this.patternEvaluator.query(code, Number(from), Number(to));
+        return new Response(JSON.stringify(result), {
+          status: result.success ? 200 : 422,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: String(error)
+        }), {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
+    // Render a tracked file to a WAV in the working directory
+    if (url.pathname === "/api/pattern/render" && request.method === "POST") {
+      try {
+        const { file, cycles = 4, sampleRate = 44100 } = await request.json();
+
+        // Files are tracked relative to the working directory
+        const filePath = file ? this.relativePath(file) : file;
+        const code = filePath ? this.fileManager.getFile(filePath)?.content : undefined;
+
+        if (!code) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: file ? `File not found: ${file}` : "No file provided"
+          }), {
+            status: file ? 404 : 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const options = { cycles: Number(cycles), sampleRate: Number(sampleRate) };
+        const invalid = renderOptionsError(options);
+        if (invalid) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: invalid
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const result = await this.playwrightManager.renderToWav(code, options);
+
+        if (!result.success || !result.wav) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: result.error
+          }), {
+            status: 422,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const outputName = `${path.basename(filePath, path.extname(filePath))}-${stamp}.wav`;
+        const outputPath = path.join(this.config.workingDir, outputName);
+        await Bun.write(outputPath, result.wav);
+        console.log(`💾 Rendered ${filePath} to ${outputName}`);
+
+        return new Response(JSON.stringify({
+          success: true,
+          path: outputPath,
+          cycles: Number(cycles),
+          cps: result.cps,
+          duration: result.duration
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: String(error)
+        }), {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleTracksAPI "/api/tracks"
+  * @description Handles labelled block listing, mute, solo and per-block evaluation
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleTracksAPI(request: Request, url: URL): Promise<Response> {
+    try {
+      // List the blocks of the live document, or of a tracked file
+      if (url.pathname === "/api/tracks" && request.method === "GET") {
+        const file = url.searchParams.get("file");
+        const code = file ? this.fileManager.getFile(file)?.content : this.trackManager.getDocument();
+
+        if (file && code === undefined) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: `File not found: ${file}`
+          }), {
+            status: 404,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          tracks: this.trackManager.list(code)
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Re-evaluate the block under a line, keeping the other blocks as they are
+      if (url.pathname === "/api/tracks/evaluate" && request.method === "POST") {
+        const body = await request.json();
+        const { file, line } = body;
+        const code: string | undefined = body.code ?? (file ? this.fileManager.getFile(file)?.content : undefined);
+
+        if (!code || !line) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "Both code (or file) and line are required"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        // Optional preload timeout in milliseconds; 0 evaluates without waiting for samples
+        const preloadTimeoutMs = body.preloadTimeout === undefined ? undefined : Number(body.preloadTimeout);
+        if (preloadTimeoutMs !== undefined && !(preloadTimeoutMs >= 0)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: `Invalid preloadTimeout: ${body.preloadTimeout}`
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const result = await this.trackManager.evaluateBlock(code, Number(line), {
+          quantize: parseQuantize(body.quantize),
+          preloadTimeoutMs,
+          safe: body.safe === true,
+          source: file ? this.relativePath(file) : undefined
+        });
+        return new Response(JSON.stringify({
+          ...result,
+          message: result.success ? `Evaluated ${result.track}` : "Strudel failed to evaluate code"
+        }), {
+          status: result.success ? 200 : 422,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Mute, unmute, solo or unsolo a block by name
+      const toggle = url.pathname.match(/^\/api\/tracks\/(mute|unmute|solo|unsolo)$/);
+      if (toggle && request.method === "POST") {
+        const { name, quantize } = await request.json();
+
+        if (!name) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "No track name provided"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const action = toggle[1];
+        const options = { quantize: parseQuantize(quantize) };
+        const result = action.endsWith("mute")
+          ? await this.trackManager.setMuted(name, action === "mute", options)
+          : await this.trackManager.setSoloed(name, action === "solo", options);
+        return new Response(JSON.stringify({
+          ...result,
+          tracks: this.trackManager.list()
+        }), {
+          status: result.success ? 200 : 422,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleSlidersAPI "/api/sliders"
+  * @description Lists the editor's slider() widgets and moves them remotely
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleSlidersAPI(request: Request, url: URL): Promise<Response> {
+    try {
+      if (url.pathname === "/api/sliders" && request.method === "GET") {
+        return new Response(JSON.stringify({
+          success: true,
+          sliders: await this.playwrightManager.getSliders()
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Set a slider by id or variable name, to a value or by a delta
+      if (url.pathname === "/api/sliders" && request.method === "POST") {
+        const { id, name, value, delta } = await request.json();
+
+        if (!(id || name) || (value === undefined && delta === undefined)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "Provide id (or name) and value (or delta)"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const slider = await this.playwrightManager.setSlider(id ?? name, {
+          value: value === undefined ? undefined : Number(value),
+          delta: delta === undefined ? undefined : Number(delta)
+        });
+        return new Response(JSON.stringify({
+          success: true,
+          slider
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleTempoAPI "/api/tempo"
+  * @description Reads and sets the scheduler tempo, with nudges and tap tempo
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleTempoAPI(request: Request, url: URL): Promise<Response> {
+    try {
+      if (url.pathname === "/api/tempo" && request.method === "GET") {
+        return new Response(JSON.stringify({
+          success: true,
+          ...(await this.playwrightManager.getTempo())
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Set tempo as { cps } or { bpm }
+      if (url.pathname === "/api/tempo" && request.method === "POST") {
+        const { cps, bpm } = await request.json();
+        const target = cps !== undefined ? Number(cps) : Number(bpm) / 60 / BEATS_PER_CYCLE;
+
+        if (cps === undefined && bpm === undefined) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "Provide cps or bpm"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          ...(await this.playwrightManager.setTempo(target))
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Nudge by a fraction, optionally only for durationMs
+      if (url.pathname === "/api/tempo/nudge" && request.method === "POST") {
+        const { amount = 0.01, durationMs } = await request.json().catch(() => ({}));
+        const tempo = await this.playwrightManager.nudgeTempo(
+          Number(amount),
+          durationMs === undefined ? undefined : Number(durationMs)
+        );
+
+        return new Response(JSON.stringify({
+          success: true,
+          ...tempo
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Each POST is a tap; from the second tap on the tempo follows the taps
+      if (url.pathname === "/api/tempo/tap" && request.method === "POST") {
+        const { taps, bpm } = this.tapTempo.tap();
+        const tempo = bpm
+          ? await this.playwrightManager.setTempo(bpm / 60 / BEATS_PER_CYCLE)
+          : undefined;
+
+        return new Response(JSON.stringify({
+          success: true,
+          taps,
+          ...tempo
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleHistoryAPI "/api/history"
+  * @description Lists, diffs and rolls back the evaluation history
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleHistoryAPI(request: Request, url: URL): Promise<Response> {
+    const file = url.searchParams.get("file");
+    const source = file ? this.relativePath(file) : undefined;
+
+    try {
+      // Sources with a history, or the entries of one source
+      if (url.pathname === "/api/history" && request.method === "GET") {
+        return new Response(JSON.stringify(source
+          ? { success: true, source, entries: await this.historyManager.list(source) }
+          : { success: true, sources: await this.historyManager.listSources() }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // One entry with its code
+      if (url.pathname === "/api/history/entry" && request.method === "GET" && source) {
+        const id = url.searchParams.get("id");
+        const entry = await this.historyManager.get(source, id ? Number(id) : undefined);
+        return new Response(JSON.stringify(entry
+          ? { success: true, entry }
+          : { success: false, error: `History entry not found: ${id}` }), {
+          status: entry ? 200 : 404,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Diff two entries; "to" defaults to the latest one
+      if (url.pathname === "/api/history/diff" && request.method === "GET" && source) {
+        // from is required; to falls back to the latest entry when left out
+        const from = url.searchParams.get("from");
+        const to = url.searchParams.get("to");
+        const isEntryId = (value: string) => /^\d+$/.test(value);
+        if (from === null || !isEntryId(from) || (to !== null && !isEntryId(to))) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "from (and to, if given) must be whole history entry ids"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const diff = await this.historyManager.diff(
+          source,
+          Number(from),
+          to === null ? undefined : Number(to)
+        );
+        return new Response(JSON.stringify({
+          success: true,
+          ...diff
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Send an earlier entry back to the REPL
+      if (url.pathname === "/api/history/rollback" && request.method === "POST") {
+        const body = await request.json();
+        const rollbackSource = body.file ? this.relativePath(body.file) : undefined;
+        const entry = rollbackSource ? await this.historyManager.get(rollbackSource, Number(body.id)) : null;
+
+        if (!entry) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: `History entry not found: ${body.file} #${body.id}`
+          }), {
+            status: 404,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const result = await this.trackManager.send(entry.code, {
+          quantize: parseQuantize(body.quantize),
+          source: entry.source,
+          rollbackOf: entry.id
+        });
+        return new Response(JSON.stringify({
+          ...result,
+          message: result.success ? `Rolled back to #${entry.id}` : "Strudel failed to evaluate code"
+        }), {
+          status: result.success ? 200 : 422,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleSessionAPI "/api/session"
+  * @description Records performance sessions and replays them
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleSessionAPI(request: Request, url: URL): Promise<Response> {
+    try {
+      if (url.pathname === "/api/session" && request.method === "GET") {
+        return new Response(JSON.stringify({
+          success: true,
+          ...this.sessionRecorder.getStatus(),
+          sessions: await this.sessionRecorder.listSessions()
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      if (url.pathname === "/api/session/record/start" && request.method === "POST") {
+        return new Response(JSON.stringify({
+          success: true,
+          ...(await this.sessionRecorder.startRecording())
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      if (url.pathname === "/api/session/record/stop" && request.method === "POST") {
+        const { path: sessionPath, session } = await this.sessionRecorder.stopRecording();
+        return new Response(JSON.stringify({
+          success: true,
+          path: sessionPath,
+          actions: session.actions.length,
+          duration: session.duration
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      // Replay runs in the background; progress is published as session:replay events
+      if (url.pathname === "/api/session/replay" && request.method === "POST") {
+        const { file, speed = 1 } = await request.json();
+        if (!file) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "No session file provided"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        if (!(await this.sessionRecorder.listSessions()).includes(file)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: `Session not found: ${file}`
+          }), {
+            status: 404,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          ...(await this.sessionRecorder.startReplay(file, Number(speed)))
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      if (url.pathname === "/api/session/replay/stop" && request.method === "POST") {
+        const stopped = this.sessionRecorder.stopReplay();
+        return new Response(JSON.stringify(stopped
+          ? { success: true }
+          : { success: false, error: "No replay running" }), {
+          status: stopped ? 200 : 409,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 409,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleScenesAPI "/api/scenes"
+  * @description Lists the set list and switches between scenes
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleScenesAPI(request: Request, url: URL): Promise<Response> {
+    try {
+      if (url.pathname === "/api/scenes" && request.method === "GET") {
+        return new Response(JSON.stringify({
+          success: true,
+          scenes: await this.sceneManager.list(),
+          current: await this.sceneManager.current()
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      if (url.pathname === "/api/scenes/current" && request.method === "GET") {
+        return new Response(JSON.stringify({
+          success: true,
+          scene: await this.sceneManager.current()
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      const move = url.pathname.match(/^\/api\/scenes\/(next|previous|goto)$/);
+      if (move && request.method === "POST") {
+        let result;
+        if (move[1] === "goto") {
+          // { scene: 2 } is the second scene of the set list, { scene: "Intro" } a scene by name
+          const { scene } = await request.json();
+          result = await this.sceneManager.goto(typeof scene === "number" ? scene : String(scene));
+        } else {
+          result = move[1] === "next"
+            ? await this.sceneManager.next()
+            : await this.sceneManager.previous();
+        }
+
+        return new Response(JSON.stringify({
+          ...result,
+          message: result.success
+            ? `Scene ${result.scene.index + 1}: ${result.scene.name}`
+            : "Strudel failed to evaluate code"
+        }), {
+          status: result.success ? 200 : 422,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleCurlAPI
+  * @description Handles cURL API endpoints
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleCurlAPI(request: Request, url: URL): Promise<Response> {
+    // Send Current Buffer
+    if (url.pathname === "/api/send-current-buffer" && request.method === "POST") {
+      try {
+        const body = await request.text();
+
+        // Quantization comes as ?quantize=now|cycle|N|at:CYCLE since the body is the code
+        let quantize: Quantize | undefined;
+        try {
+          quantize = parseQuantize(url.searchParams.get("quantize"));
+        } catch (error: any) {
+          return new Response(`❌ ${error.message}`, {
+            status: 400,
+            headers: {
+              "Content-Type": "text/plain",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        // Optional ?preloadTimeout= in milliseconds; 0 evaluates without waiting for samples
+        const preloadTimeout = url.searchParams.get("preloadTimeout");
+        const preloadTimeoutMs = preloadTimeout === null ? undefined : Number(preloadTimeout);
+        if (preloadTimeoutMs !== undefined && !(preloadTimeoutMs >= 0)) {
+          return new Response(`❌ Invalid preloadTimeout: ${preloadTimeout}`, {
+            status: 400,
+            headers: {
+              "Content-Type": "text/plain",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const file = url.searchParams.get("file");
+        const safe = url.searchParams.has("safe") && url.searchParams.get("safe") !== "0";
+        const result = await this.trackManager.send(body, {
+          quantize,
+          preloadTimeoutMs,
+          safe,
+          source: file ? this.relativePath(file) : undefined
+        });
+        const errorLines = result.errors.map(error =>
+          `  ${error.line ? `${error.line}:${error.column ?? 0} ` : ""}${error.message}`
+        );
+        const warningLines = (result.warnings ?? []).map(warning => `  ⚠️ ${warning.message}`);
+
+        return new Response(result.success
+          ? [
+            `✅ Code evaluated by Strudel${quantize && result.cycle !== undefined ? ` (from cycle ${result.cycle})` : ""}`,
+            ...warningLines
+          ].join("\n")
+          : [
+            result.status === "rejected"
+              ? "🛡️ Safe send rejected the code; the live pattern keeps playing"
+              : "❌ Strudel failed to evaluate code",
+            ...errorLines
+          ].join("\n"), {
+          status: result.success ? 200 : 422,
+          headers: {
+            "Content-Type": "text/plain",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error) {
+        return new Response(`❌ Error: ${error}`, {
+          status: 500,
+          headers: {
+            "Content-Type": "text/plain",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
+    // Stop Strudel
+    if (url.pathname === "/api/hush" && request.method === "POST") {
+      const success = await this.playwrightManager.stopStrudel();
+      return new Response(success ? "⏹️ Stopped Strudel" : "❌ Failed to stop", {
+        status: success ? 200 : 500,
+        headers: {
+          "Content-Type": "text/plain",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleLintAPI "/api/lint"
+  * @description Checks code for syntax, mini-notation and unknown functions without evaluating it
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleLintAPI(request: Request, url: URL): Promise<Response> {
+    if (url.pathname === "/api/lint" && request.method === "POST") {
+      try {
+        const body = await request.json();
+        const { file } = body;
+        let { code } = body;
+
+        // Resolve code from a tracked file when no code is given
+        if (typeof code !== "string" && file) {
+          code = this.fileManager.getFile(this.relativePath(file))?.content;
+        }
+
+        if (typeof code !== "string") {
+          return new Response(JSON.stringify({
+            success: false,
+            error: file ? `File not found: ${file}` : "No code provided"
+          }), {
+            status: file ? 404 : 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        const result = await this.linter.lint(code);
+        return new Response(JSON.stringify(result), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: String(error)
+        }), {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleSamples "/samples"
+  * @description Serves the local sample library: its strudel.json sample map and the audio files
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleSamples(request: Request, url: URL): Promise<Response> {
+    const file = decodeURIComponent(url.pathname.replace(/^\/samples\/?/, ""));
+
+    // samples('http://localhost:3001/samples') fetches the map from the URL itself
+    if (file === "" || file === "strudel.json") {
+      return new Response(JSON.stringify(this.sampleLibrary.getSampleMap(`${url.origin}/samples/`)), {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    const sample = this.sampleLibrary.getFile(file);
+    if (!sample || !(await sample.exists())) {
+      console.log(`❌ Sample not found: ${file}`);
+      return new Response("Sample not found", {
+        status: 404,
+        headers: this.getCorsHeaders()
+      });
+    }
+
+    return new Response(request.method === "HEAD" ? null : sample, {
+      headers: {
+        "Content-Type": sample.type,
+        "Content-Length": String(sample.size),
+        "Cache-Control": "public, max-age=3600",
+        ...this.getCorsHeaders()
+      }
+    });
+  }
+
+  /**
+  * @method handleSamplesAPI "/api/samples"
+  * @description Lists the sounds of the local sample library and rescans it on demand;
+  * manages the offline cache of `github:` packs under "/api/samples/cache"
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {URL} url - URL object
+  * @returns {Promise<Response>} Response
+  */
+  private async handleSamplesAPI(request: Request, url: URL): Promise<Response> {
+    if (url.pathname === "/api/samples" && request.method === "GET") {
+      return new Response(JSON.stringify({
+        success: true,
+        ...this.sampleLibrary.getStatus(),
+        url: `${url.origin}/samples`,
+        sounds: this.sampleLibrary.list()
+      }), {
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    try {
+      if (url.pathname === "/api/samples/cache" && request.method === "GET") {
+        const packs = await this.sampleCache.list();
+        return new Response(JSON.stringify({
+          success: true,
+          packs,
+          size: packs.reduce((sum, pack) => sum + pack.size, 0)
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      if (url.pathname === "/api/samples/cache/prefetch" && request.method === "POST") {
+        // { pack: "github:user/repo" }, or the packs a file or piece of code loads
+        const { pack, file, code } = await request.json();
+        let packs: string[];
+        if (pack) {
+          packs = [pack];
+        } else {
+          let source: string | undefined = code;
+          if (source === undefined && file) {
+            source = this.fileManager.getFile(this.relativePath(file))?.content;
+          }
+          if (source === undefined && file) {
+            // Untracked files are read from disk, but only inside the working directory
+            const workingDir = path.resolve(this.config.workingDir);
+            const fullPath = path.resolve(workingDir, file);
+            if (!fullPath.startsWith(workingDir + path.sep)) {
+              return new Response(JSON.stringify({
+                success: false,
+                error: `File is outside the working directory: ${file}`
+              }), {
+                status: 400,
+                headers: {
+                  "Content-Type": "application/json",
+                  ...this.getCorsHeaders()
+                }
+              });
+            }
+            const onDisk = Bun.file(fullPath);
+            if (!(await onDisk.exists())) {
+              return new Response(JSON.stringify({
+                success: false,
+                error: `File not found: ${file}`
+              }), {
+                status: 404,
+                headers: {
+                  "Content-Type": "application/json",
+                  ...this.getCorsHeaders()
+                }
+              });
+            }
+            source = await onDisk.text();
+          }
+          if (source === undefined) {
+            return new Response(JSON.stringify({
+              success: false,
+              error: "Provide a pack, file or code to prefetch"
+            }), {
+              status: 400,
+              headers: {
+                "Content-Type": "application/json",
+                ...this.getCorsHeaders()
+              }
+            });
+          }
+          packs = findGithubPacks(source);
+        }
+
+        const results = [];
+        for (const name of packs) {
+          results.push(await this.sampleCache.prefetch(name));
+        }
+
+        return new Response(JSON.stringify({
+          success: results.every(result => result.failed.length === 0),
+          packs: results
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+
+      if (url.pathname === "/api/samples/cache/evict" && request.method === "POST") {
+        const { pack } = await request.json();
+        if (!pack) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "Pack is required"
+          }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              ...this.getCorsHeaders()
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          ...(await this.sampleCache.evict(pack))
+        }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.getCorsHeaders()
+          }
+        });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error?.message ?? error)
+      }), {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    if (url.pathname === "/api/samples/rescan" && request.method === "POST") {
+      const status = await this.sampleLibrary.scan();
+      return new Response(JSON.stringify({
+        success: status.available,
+        ...status,
+        ...(!status.available && { error: `No samples directory at ${status.dir}` })
+      }), {
+        status: status.available ? 200 : 404,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getCorsHeaders()
+        }
+      });
+    }
+
+    return new Response("Not Found", { status: 404, headers: this.getCorsHeaders() });
+  }
+
+  /**
+  * @method handleHealthAPI "/health"
+  * @description Handles health API endpoint
+  * @private
+  * @async
+  * @returns {Promise<Response>} Response
+  */
+  private async handleHealthAPI(): Promise<Response> {
+    const stats = this.fileManager.getStats();
+
+    return new Response(JSON.stringify({
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      neovim: this.neovimManager.isConnected(),
+      browser: this.playwrightManager.isConnected(),
+      files: {
+        count: stats.totalFiles,
         totalSize: stats.totalSize,
         extensions: stats.extensions
       },
+      samples: this.sampleLibrary.getStatus(),
       config: {
         port: this.config.port,
         workingDir: this.config.workingDir
@@ -451,18 +2035,86 @@ export class StrudelServer {
     });
   }
 
+  /**
+  * @method handleWebSocketOpen "/ws"
+  * @description Subscribes a new client to the event stream and sends it a state snapshot
+  * @private
+  * @param {ServerWebSocket} ws - WebSocket connection
+  */
+  private handleWebSocketOpen(ws: ServerWebSocket<unknown>): void {
+    ws.subscribe(EVENTS_TOPIC);
+    ws.send(JSON.stringify(this.events.createEvent("server:state", {
+      neovimConnected: this.neovimManager.isConnected(),
+      browserConnected: this.playwrightManager.isConnected(),
+      playing: this.playwrightManager.isPlaybackActive(),
+      recording: this.playwrightManager.getRecordingStatus().recording,
+      filesCount: this.fileManager.getFileCount()
+    })));
+    console.log("🔌 Event client connected");
+  }
+
+  /**
+  * @method handleWebSocketClose "/ws"
+  * @description Unsubscribes a disconnected client from the event stream
+  * @private
+  * @param {ServerWebSocket} ws - WebSocket connection
+  */
+  private handleWebSocketClose(ws: ServerWebSocket<unknown>): void {
+    ws.unsubscribe(EVENTS_TOPIC);
+    console.log("🔌 Event client disconnected");
+  }
+
   /**
   * @method fetch
-  * @description Handles incoming requests
+  * @description Handles incoming requests, refusing cross-origin requests that would change state
   * @private
   * @async
   * @param {Request} request - Request object
-  * @returns {Promise<Response>} Response
+  * @param {Server} server - Bun server, used to upgrade WebSocket requests
+  * @returns {Promise<Response | undefined>} Response, or undefined once upgraded
+  */
+  private async fetch(request: Request, server?: Server): Promise<Response | undefined> {
+    const mutating = !["GET", "HEAD", "OPTIONS"].includes(request.method);
+    if (mutating && !this.isTrustedOrigin(request)) {
+      return new Response("Cross-origin requests may not change server state", { status: 403 });
+    }
+
+    const response = await this.route(request, server);
+    // Mutating endpoints only answer their own origin
+    if (mutating) {
+      response?.headers.delete("Access-Control-Allow-Origin");
+    }
+    return response;
+  }
+
+  /**
+  * @method route
+  * @description Dispatches a request to the static files, the event stream or the API handlers
+  * @private
+  * @async
+  * @param {Request} request - Request object
+  * @param {Server} server - Bun server, for WebSocket upgrades
+  * @returns {Promise<Response | undefined>} Response, or undefined once upgraded to a WebSocket
   */
-  private async fetch(request: Request): Promise<Response> {
+  private async route(request: Request, server?: Server): Promise<Response | undefined> {
     // Parse URL
     const url = new URL(request.url);
 
+    // Live event stream; it carries the code that is sent, so only the same clients that may change state get it.
+    // Browsers do not apply CORS to WebSockets, so the Origin check is the only thing keeping other pages out
+    if (url.pathname === "/ws") {
+      if (!this.isTrustedOrigin(request)) {
+        return new Response("Cross-origin clients may not follow the event stream", { status: 403 });
+      }
+      if (server?.upgrade(request)) {
+        return undefined;
+      }
+      return new Response("WebSocket upgrade required", {
+        status: 426,
+        headers: this.getCorsHeaders()
+      });
+    }
+
     // Handle preflight requests
     if (request.method === "OPTIONS") {
       return new Response(null, {
@@ -471,6 +2123,11 @@ export class StrudelServer {
       });
     }
 
+    // Local sample library, before static files so its strudel.json is not looked up in the working directory
+    if (url.pathname === "/samples" || url.pathname.startsWith("/samples/")) {
+      return this.handleSamples(request, url);
+    }
+
     // Static files first
     // console.log(`Attempting to serve: ${url.pathname}`);
     const staticResponse = await this.serveStaticFile(url);
@@ -492,6 +2149,42 @@ export class StrudelServer {
       return this.handlePlaywrightAPI(request, url);
     }
 
+    if (url.pathname.startsWith("/api/pattern")) {
+      return this.handlePatternAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/tracks")) {
+      return this.handleTracksAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/sliders")) {
+      return this.handleSlidersAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/tempo")) {
+      return this.handleTempoAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/history")) {
+      return this.handleHistoryAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/session")) {
+      return this.handleSessionAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/scenes")) {
+      return this.handleScenesAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/samples")) {
+      return this.handleSamplesAPI(request, url);
+    }
+
+    if (url.pathname.startsWith("/api/lint")) {
+      return this.handleLintAPI(request, url);
+    }
+
     if (url.pathname.startsWith("/api/send-current-buffer") 
       || url.pathname === "/api/hush") {
       return this.handleCurlAPI(request, url);
@@ -524,11 +2217,19 @@ export class StrudelServer {
 
       // Scan initial files
       await this.fileManager.scanLocalFiles();
+      await this.sampleLibrary.start();
 
       // Start Bun server first
       this.server = Bun.serve({
         port: this.config.port,
-        fetch: (req) => this.fetch(req),
+        fetch: (req, server) => this.fetch(req, server),
+        websocket: {
+          open: (ws) => this.handleWebSocketOpen(ws),
+          close: (ws) => this.handleWebSocketClose(ws),
+          message: () => {
+            // Clients only listen; incoming messages are ignored
+          }
+        }
       });
 
       console.log(`🎵 Strudel Server initializing...!`);
@@ -540,11 +2241,13 @@ export class StrudelServer {
       console.log(`🎹 Open http://localhost:${this.config.port}/strudel for the integration`);
       console.log(`📁 Serving files from: ${this.config.workingDir}`);
 
-      // Search for a listening nvim socket /tmp/strudel-nvim-socket
-      await this.neovimManager.connectToNeovim();
+      // Neovim registers itself through /api/neovim/register; only configured addresses are connected up front
+      for (const entry of this.config.neovimAddresses ?? []) {
+        const [name, address] = entry.includes("=") ? entry.split("=", 2) : [undefined, entry];
+        await this.neovimManager.connectToNeovim({ address, name });
+      }
       if (!this.neovimManager.isConnected()) {
-        console.log(`\n💡 To connect Neovim, start it with:`);
-        console.log(`\tnvim --listen /tmp/strudel-nvim-socket`);
+        console.log(`\n💡 Waiting for Neovim: open it with strudel-integration.lua loaded and it will register itself`);
       }
 
       // Now start Playwright after server is confirmed ready
@@ -585,6 +2288,16 @@ export class StrudelServer {
   async stop(): Promise<void> {
     console.log('\n🛑 Shutting down server...');
 
+    // Keep a performance that was still being recorded
+    this.sessionRecorder.stopReplay();
+    if (this.sessionRecorder.getStatus().recording) {
+      await this.sessionRecorder.stopRecording().catch(error => {
+        console.error("❌ Failed to save session recording:", error);
+      });
+    }
+
+    this.sceneManager.cleanup();
+    this.sampleLibrary.cleanup();
     await Promise.all([
       this.fileManager.cleanup(),
       this.neovimManager.cleanup(),
@@ -594,6 +2307,7 @@ export class StrudelServer {
     if (this.server) {
       this.server.stop();
     }
+    this.events.clear();
 
     console.log("✅ Server shutdown completed");
   }
@@ -603,7 +2317,8 @@ export class StrudelServer {
     return {
       files: this.fileManager,
       neovim: this.neovimManager,
-      playwright: this.playwrightManager
+      playwright: this.playwrightManager,
+      events: this.events
     };
   }
 
@@ -622,6 +2337,9 @@ export class StrudelServer {
 if (import.meta.main) {
   const server = new StrudelServer({
     port: 3001,
+    samplesDir: process.env.STRUDEL_SAMPLES_DIR,
+    preloadTimeoutMs: process.env.STRUDEL_PRELOAD_TIMEOUT ? Number(process.env.STRUDEL_PRELOAD_TIMEOUT) : undefined,
+    neovimAddresses: process.env.STRUDEL_NVIM_ADDRESSES?.split(",").map(entry => entry.trim()).filter(Boolean),
     playwright: {
       headless: false,
       autoStart: false
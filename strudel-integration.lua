@@ -17,10 +17,17 @@ end
 --------------------------------------------------------------------
 M.config = {
   server_url = "http://localhost:3001",
-  timeout = 5000, -- ms
+  timeout = 5000, -- ms; sends wait longer when preload_timeout needs it, see request_timeout()
   show_notifications = true,
-  nvim_socket = "/tmp/strudel-nvim-socket",
+  nvim_socket = "/tmp/strudel-nvim-socket", -- only used when Neovim was started without a server address
+  nvim_name = nil, -- name to register with; defaults to the server address
   playing = false,
+  recording = false,
+  quantize = nil, -- when sent code takes effect: nil/"now", "cycle", N (cycles) or "at:CYCLE"
+  preload_timeout = 4000, -- ms a send waits for its samples to load, 0 disables
+  safe_send = false, -- check code in a hidden page first; the live pattern keeps playing if it fails
+  live_events = true, -- follow server state over the /ws event stream
+  events_reconnect_ms = 3000,
 }
 
 ---@class ParserConfig
@@ -51,19 +58,34 @@ vim.api.nvim_create_autocmd("BufRead", {
 -- JSON encode shim (works on 0.8–0.10)
 local json_encode = vim.json and vim.json.encode or vim.fn.json_encode
 
+local function url_encode(str)
+  return (str:gsub("[^%w%-_%.~]", function(c)
+    return string.format("%%%02X", string.byte(c))
+  end))
+end
+
 local function notify(msg, level)
   if M.config.show_notifications then
     vim.notify(msg, level or vim.log.levels.INFO)
   end
 end
 
+-- A send can take the sample preload, a safe-send check in the shadow page (up to 5 s on the
+-- server) and the evaluation itself, so requests wait at least that long before giving up
+local SAFE_CHECK_MS = 5000
+local EVALUATION_MARGIN_MS = 2000
+
+local function request_timeout()
+  return math.max(M.config.timeout, (M.config.preload_timeout or 0) + SAFE_CHECK_MS + EVALUATION_MARGIN_MS)
+end
+
 -- Asynchronous curl wrapper (uses vim.system if available, otherwise jobstart)
 local function curl_async(method, endpoint, body, cb, content_type)
   local url = M.config.server_url .. endpoint
   debug_log(string.format("Making %s request to: %s", method, url))
   debug_log(string.format("Current playing state: %s", tostring(M.config.playing)))
 
-  local args = { "curl", "-s", "-X", method, "--max-time", tostring(M.config.timeout / 1000) }
+  local args = { "curl", "-s", "-X", method, "--max-time", tostring(request_timeout() / 1000) }
 
   if body then
     local ct = content_type or "application/json"
@@ -89,18 +111,64 @@ local function curl_async(method, endpoint, body, cb, content_type)
   end
 
   if vim.system then
-    vim.system(args, { text = true, timeout = M.config.timeout }, on_exit)
+    vim.system(args, { text = true, timeout = request_timeout() }, on_exit)
   else
     vim.fn.jobstart(args, {
       stdout_buffered = true,
       on_exit = function(_, code, _)
         on_exit({ code = code, stdout = table.concat(vim.fn.jobwait({}), ""), stderr = "" })
       end,
-      timeout = M.config.timeout,
+      timeout = request_timeout(),
     })
   end
 end
 
+-- Replies to rpc_request() come back as User StrudelReply autocmds carrying the request id
+local pending_replies = {}
+local last_request_id = 0
+
+vim.api.nvim_create_autocmd("User", {
+  group = vim.api.nvim_create_augroup("StrudelReplies", { clear = true }),
+  pattern = "StrudelReply",
+  callback = function(args)
+    local cb = pending_replies[args.data.id]
+    if cb then
+      pending_replies[args.data.id] = nil
+      cb(type(args.data.reply) == "table" and args.data.reply or {})
+    end
+  end,
+})
+
+-- Call the server over the RPC channel it stores in vim.g.strudel_channel when it connects.
+-- Returns false when there is no live channel, so the caller can fall back to curl; otherwise
+-- hands cb the reply table, or { success = false, error = ... } when the request failed.
+-- The call goes out as a notification, so Neovim keeps running while the server works on it.
+local function rpc_request(method, args, cb)
+  local chan = vim.g.strudel_channel
+  if not chan or vim.tbl_isempty(vim.api.nvim_get_chan_info(chan)) then
+    return false
+  end
+
+  last_request_id = last_request_id + 1
+  local id = last_request_id
+  pending_replies[id] = cb
+  local ok, err = pcall(vim.rpcnotify, chan, method, id, unpack(args))
+  if not ok then
+    pending_replies[id] = nil
+    cb({ success = false, error = tostring(err) })
+    return true
+  end
+
+  local timeout = request_timeout()
+  vim.defer_fn(function()
+    if pending_replies[id] then
+      pending_replies[id] = nil
+      cb({ success = false, error = string.format("No reply to %s within %d ms", method, timeout) })
+    end
+  end, timeout)
+  return true
+end
+
 --------------------------------------------------------------------
 -- 3. SERVER HEALTH ------------------------------------------------
 --------------------------------------------------------------------
@@ -177,6 +245,20 @@ function M.start_strudel()
   debug_log("=== START FUNCTION CALLED ===")
   notify("Starting Strudel")
 
+  local function started(res)
+    if res and res.success then
+      M.config.playing = true
+      debug_log(string.format("State updated: playing = %s", tostring(M.config.playing)))
+      notify(res.message or "Strudel started")
+    else
+      debug_log("Start request returned unsuccessful response")
+      notify(res and (res.error or res.message) or "Strudel start failed", vim.log.levels.ERROR)
+    end
+  end
+  if rpc_request("strudel_start", {}, started) then
+    return
+  end
+
   curl_async("POST", "/api/browser/start", "", function(ok, data)
     debug_log(string.format("Start request callback - OK: %s", tostring(ok)))
 
@@ -207,15 +289,7 @@ function M.start_strudel()
     end
 
     debug_log(string.format("Start response parsed successfully: %s", vim.inspect(res)))
-
-    if res and res.success then
-      M.config.playing = true
-      debug_log(string.format("State updated: playing = %s", tostring(M.config.playing)))
-      notify(res.message or "Strudel started")
-    else
-      debug_log("Start request returned unsuccessful response")
-      notify(res and res.message or "Strudel start failed", vim.log.levels.ERROR)
-    end
+    started(res)
   end)
 end
 
@@ -238,6 +312,20 @@ function M.stop_strudel()
     end)
   end
 
+  local function stopped(res)
+    if res and res.success then
+      M.config.playing = false
+      debug_log(string.format("State updated: playing = %s", tostring(M.config.playing)))
+      notify(res.message)
+    else
+      debug_log("Stop request returned unsuccessful response - using fallback")
+      fallback()
+    end
+  end
+  if rpc_request("strudel_hush", {}, stopped) then
+    return
+  end
+
   curl_async("POST", "/api/browser/stop", "", function(ok, data)
     debug_log(string.format("Stop request callback - OK: %s", tostring(ok)))
 
@@ -258,19 +346,38 @@ function M.stop_strudel()
     end
 
     debug_log(string.format("Stop response parsed successfully: %s", vim.inspect(res)))
+    stopped(res)
+  end)
+end
 
-    if res and res.success then
-      M.config.playing = false
-      debug_log(string.format("State updated: playing = %s", tostring(M.config.playing)))
-      notify(res.message)
+-- Record the live output to a timestamped file in the server's working directory
+function M.toggle_recording()
+  local action = M.config.recording and "stop" or "start"
+  curl_async("POST", "/api/browser/record/" .. action, "", function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, data or "")
+    if not ok or not decoded or type(res) ~= "table" then
+      return notify("Recording " .. action .. " failed - server error", vim.log.levels.ERROR)
+    end
+
+    if not res.success then
+      return notify(res.error or ("Recording " .. action .. " failed"), vim.log.levels.ERROR)
+    end
+
+    M.config.recording = action == "start"
+    if M.config.recording then
+      notify("🔴 Recording to " .. res.path)
     else
-      debug_log("Stop request returned unsuccessful response - using fallback")
-      fallback()
+      notify(string.format("⏹️ Recording saved to %s (%d bytes)", res.path, res.bytes or 0))
     end
   end)
 end
 
 function M.browser_status()
+  if rpc_request("strudel_status", {}, function(res)
+    notify(res.error or vim.inspect(res), res.error and vim.log.levels.ERROR or nil)
+  end) then
+    return
+  end
   curl_async("GET", "/api/browser/status", nil, function(ok, data)
     if ok then
       notify(data)
@@ -283,14 +390,67 @@ end
 --------------------------------------------------------------------
 -- 6. CODE TRANSFER -----------------------------------------------
 --------------------------------------------------------------------
+-- Format the structured error list returned by /api/browser/send-code
+local function format_errors(errors)
+  local lines = {}
+  for _, err in ipairs(errors or {}) do
+    local where = err.line and string.format("%d:%d ", err.line, err.column or 0) or ""
+    table.insert(lines, string.format("  %s%s", where, err.message))
+  end
+  return table.concat(lines, "\n")
+end
+
+-- Name the history of sent code is kept under: the file path, or the buffer number
+local function buffer_source(bufnr)
+  bufnr = bufnr or vim.api.nvim_get_current_buf()
+  local name = vim.api.nvim_buf_get_name(bufnr)
+  return name ~= "" and name or ("buffer-" .. bufnr)
+end
+
+-- Note on samples that were still loading when the code was evaluated
+local function preload_note(preload)
+  if type(preload) ~= "table" then
+    return ""
+  end
+  if preload.state == "timeout" then
+    return string.format(" (samples still loading: %d/%d)", preload.loaded, preload.total)
+  elseif preload.state == "failed" then
+    return string.format(" (%d samples failed to load)", math.max(preload.failed, 1))
+  end
+  return ""
+end
+
 local function post_code(code)
-  local payload = json_encode({ code = code })
-  curl_async("POST", "/api/browser/send-code", payload, function(ok, data)
-    local res = ok and vim.fn.json_decode(data) or {}
-    notify(res.message or "Code send failed", res.success and nil or vim.log.levels.ERROR)
+  local options = {
+    quantize = M.config.quantize,
+    preloadTimeout = M.config.preload_timeout,
+    safe = M.config.safe_send,
+    file = buffer_source(),
+  }
+  local function sent(res)
+    if res.success then
+      local warnings = format_errors(res.warnings)
+      return notify((res.message or "Code evaluated") .. preload_note(res.preload)
+        .. (warnings ~= "" and ("\n⚠️ Page errors:\n" .. warnings) or ""))
+    end
+    local details = format_errors(res.errors)
+    notify((res.message or res.error or "Code send failed") .. (details ~= "" and ("\n" .. details) or ""), vim.log.levels.ERROR)
+  end
+  if rpc_request("strudel_send", { code, options }, sent) then
+    return
+  end
+
+  curl_async("POST", "/api/browser/send-code", json_encode(vim.tbl_extend("force", options, { code = code })), function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    sent(decoded and res or {})
   end)
 end
 
+function M.toggle_safe_send()
+  M.config.safe_send = not M.config.safe_send
+  notify(M.config.safe_send and "🛡️ Safe send on" or "Safe send off")
+end
+
 function M.send_buffer()
   local text = table.concat(vim.api.nvim_buf_get_lines(0, 0, -1, false), "\n")
   if text:match("^%s*$") then
@@ -300,8 +460,654 @@ function M.send_buffer()
   post_code(text)
 end
 
+-- Re-evaluate only the labelled block under the cursor (e.g. `BASS:`)
+function M.send_block()
+  local text = table.concat(vim.api.nvim_buf_get_lines(0, 0, -1, false), "\n")
+  if text:match("^%s*$") then
+    return notify("Empty buffer", vim.log.levels.WARN)
+  end
+  local line = vim.api.nvim_win_get_cursor(0)[1]
+  local payload = json_encode({
+    code = text,
+    line = line,
+    quantize = M.config.quantize,
+    preloadTimeout = M.config.preload_timeout,
+    safe = M.config.safe_send,
+    file = buffer_source(),
+  })
+  curl_async("POST", "/api/tracks/evaluate", payload, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    res = decoded and res or {}
+    if res.success then
+      return notify((res.message or "Block evaluated") .. preload_note(res.preload))
+    end
+    local details = format_errors(res.errors)
+    notify((res.message or res.error or "Block send failed") .. (details ~= "" and ("\n" .. details) or ""),
+      vim.log.levels.ERROR)
+  end)
+end
+
+function M.tracks()
+  curl_async("GET", "/api/tracks", nil, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify("Track list failed", vim.log.levels.ERROR)
+    end
+    local lines = {}
+    for _, track in ipairs(res.tracks or {}) do
+      local state = track.soloed and "solo" or (track.playing and "on" or "muted")
+      table.insert(lines, string.format("  %-12s %-6s lines %d-%d", track.name, state, track.line, track.endLine))
+    end
+    notify(#lines > 0 and ("Tracks:\n" .. table.concat(lines, "\n")) or "No labelled blocks playing")
+  end)
+end
+
+-- action is one of "mute", "unmute", "solo", "unsolo"
+local function track_action(action, name)
+  if not name or name == "" then
+    return notify("Track name required", vim.log.levels.WARN)
+  end
+  curl_async("POST", "/api/tracks/" .. action, json_encode({ name = name }), function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    res = decoded and res or {}
+    if res.success then
+      return notify(string.format("%s: %s", action, name))
+    end
+    notify(res.error or ("Track " .. action .. " failed"), vim.log.levels.ERROR)
+  end)
+end
+
+function M.track_mute(name)
+  track_action("mute", name)
+end
+
+function M.track_unmute(name)
+  track_action("unmute", name)
+end
+
+function M.track_solo(name)
+  track_action("solo", name)
+end
+
+function M.track_unsolo(name)
+  track_action("unsolo", name)
+end
+
+function M.sliders()
+  curl_async("GET", "/api/sliders", nil, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify((decoded and res.error) or "Slider list failed", vim.log.levels.ERROR)
+    end
+    local lines = {}
+    for _, slider in ipairs(res.sliders or {}) do
+      table.insert(lines, string.format("  %-12s %8.3f  [%s, %s]  line %d",
+        slider.name or slider.id, slider.value, slider.min, slider.max, slider.line))
+    end
+    notify(#lines > 0 and ("Sliders:\n" .. table.concat(lines, "\n")) or "No sliders in the evaluated code")
+  end)
+end
+
+-- Set a slider (by variable name or id) to a value, or move it by a delta:
+--   require("strudel-integration").set_slider("energy", { delta = 0.5 })
+function M.set_slider(target, change)
+  local body = vim.tbl_extend("force", { name = target }, change or {})
+  curl_async("POST", "/api/sliders", json_encode(body), function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    res = decoded and res or {}
+    if res.success then
+      return notify(string.format("🎚️ %s = %.3f", target, res.slider.value))
+    end
+    notify(res.error or "Slider update failed", vim.log.levels.ERROR)
+  end)
+end
+
+local function tempo_request(endpoint, body)
+  curl_async("POST", endpoint, json_encode(body), function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    res = decoded and res or {}
+    if not res.success then
+      return notify(res.error or "Tempo request failed", vim.log.levels.ERROR)
+    end
+    if res.bpm then
+      notify(string.format("⏱️ %.1f bpm (%.3f cps)", res.bpm, res.cps))
+    else
+      notify(string.format("⏱️ Tap %d", res.taps or 1))
+    end
+  end)
+end
+
+-- Show the tempo, or set it in bpm when given
+function M.tempo(bpm)
+  if rpc_request("strudel_tempo", { bpm }, function(res)
+    if not res.success then
+      return notify(res.error or "Tempo request failed", vim.log.levels.ERROR)
+    end
+    notify(string.format("⏱️ %.1f bpm (%.3f cps), cycle %.2f", res.bpm, res.cps, res.cycle))
+  end) then
+    return
+  end
+  if bpm then
+    return tempo_request("/api/tempo", { bpm = bpm })
+  end
+  curl_async("GET", "/api/tempo", nil, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify((decoded and res.error) or "Tempo request failed", vim.log.levels.ERROR)
+    end
+    notify(string.format("⏱️ %.1f bpm (%.3f cps), cycle %.2f", res.bpm, res.cps, res.cycle))
+  end)
+end
+
+function M.tap_tempo()
+  tempo_request("/api/tempo/tap", {})
+end
+
+-- amount is relative (0.01 = 1% faster); duration_ms makes the nudge temporary
+function M.nudge_tempo(amount, duration_ms)
+  tempo_request("/api/tempo/nudge", { amount = amount, durationMs = duration_ms })
+end
+
+-- Show the evaluation history of the current buffer
+function M.history()
+  local source = url_encode(buffer_source())
+  curl_async("GET", "/api/history?file=" .. source, nil, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify((decoded and res.error) or "History request failed", vim.log.levels.ERROR)
+    end
+    local lines = {}
+    for _, entry in ipairs(res.entries or {}) do
+      table.insert(lines, string.format("  #%-4d %s %s %s%s", entry.id, entry.timestamp:sub(12, 19),
+        entry.success and "✅" or "❌", entry.hash:sub(1, 8),
+        entry.rollbackOf and (" (rollback of #" .. entry.rollbackOf .. ")") or ""))
+    end
+    notify(#lines > 0 and ("History:\n" .. table.concat(lines, "\n")) or "No history for this buffer")
+  end)
+end
+
+-- Diff two history entries of the current buffer (to defaults to the latest)
+function M.history_diff(from, to)
+  if not from then
+    return notify("Usage: :Strudel diff FROM [TO]", vim.log.levels.WARN)
+  end
+  local source = url_encode(buffer_source())
+  local query = string.format("file=%s&from=%d%s", source, from, to and ("&to=" .. to) or "")
+  curl_async("GET", "/api/history/diff?" .. query, nil, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify((decoded and res.error) or "Diff request failed", vim.log.levels.ERROR)
+    end
+    notify(string.format("#%d → #%d (+%d -%d)\n%s", res.from, res.to, res.added, res.removed, res.diff))
+  end)
+end
+
+-- Roll the REPL back to an earlier history entry of the current buffer
+function M.rollback(id)
+  if not id then
+    return notify("Usage: :Strudel rollback ID", vim.log.levels.WARN)
+  end
+  local payload = json_encode({ file = buffer_source(), id = id, quantize = M.config.quantize })
+  curl_async("POST", "/api/history/rollback", payload, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    res = decoded and res or {}
+    if res.success then
+      return notify(res.message or "Rolled back")
+    end
+    local details = format_errors(res.errors)
+    notify((res.message or res.error or "Rollback failed") .. (details ~= "" and ("\n" .. details) or ""),
+      vim.log.levels.ERROR)
+  end)
+end
+
+-- Performance sessions: "start"/"stop" recording, "replay FILE [SPEED]", "list"
+function M.session(action, file, speed)
+  local requests = {
+    start = { "POST", "/api/session/record/start", "" },
+    stop = { "POST", "/api/session/record/stop", "" },
+    replay = { "POST", "/api/session/replay", json_encode({ file = file, speed = speed }) },
+    list = { "GET", "/api/session", nil },
+  }
+  local request = requests[action or "list"]
+  if not request then
+    return notify("Usage: :Strudel session start|stop|replay FILE [SPEED]|list", vim.log.levels.WARN)
+  end
+
+  curl_async(request[1], request[2], request[3], function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify((decoded and res.error) or "Session request failed", vim.log.levels.ERROR)
+    end
+    if action == "stop" then
+      notify(string.format("💾 Session saved to %s (%d actions)", res.path, res.actions))
+    elseif action == "start" then
+      notify("⏺️ Session recording started")
+    elseif action == "replay" then
+      notify("▶️ Replaying " .. file)
+    else
+      notify("Sessions:\n  " .. table.concat(res.sessions or {}, "\n  "))
+    end
+  end)
+end
+
+-- Set list scenes: "next", "prev", "goto N|NAME", "list"
+function M.scene(action, target)
+  action = action or "list"
+  if action == "list" then
+    return curl_async("GET", "/api/scenes", nil, function(ok, data)
+      local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+      if not decoded or not res.success then
+        return notify((decoded and res.error) or "Scene request failed", vim.log.levels.ERROR)
+      end
+      local current = type(res.current) == "table" and res.current.index or -1
+      local lines = {}
+      for _, scene in ipairs(res.scenes or {}) do
+        table.insert(lines, string.format("%s %d. %s (%s)", scene.index == current and "▶" or " ", scene.index + 1, scene.name, scene.file))
+      end
+      notify("Scenes:\n" .. table.concat(lines, "\n"))
+    end)
+  end
+
+  local endpoints = { next = "/api/scenes/next", prev = "/api/scenes/previous", ["goto"] = "/api/scenes/goto" }
+  if not endpoints[action] or (action == "goto" and not target) then
+    return notify("Usage: :Strudel scene next|prev|goto N|NAME|list", vim.log.levels.WARN)
+  end
+
+  local body = action == "goto" and json_encode({ scene = tonumber(target) or target }) or ""
+  curl_async("POST", endpoints[action], body, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      local msg = decoded and (res.error or ("❌ Scene failed to evaluate:\n" .. format_errors(res.errors)))
+        or "Scene request failed"
+      return notify(msg, vim.log.levels.ERROR)
+    end
+    M.config.playing = true
+    notify(string.format("🎬 Scene %d: %s", res.scene.index + 1, res.scene.name))
+  end)
+end
+
+-- Local sample library: sounds served under /samples
+function M.samples()
+  curl_async("GET", "/api/samples", nil, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or not res.success then
+      return notify("Could not list samples", vim.log.levels.ERROR)
+    end
+    if not res.available then
+      return notify("No samples directory at " .. res.dir, vim.log.levels.WARN)
+    end
+    local lines = {}
+    for _, sound in ipairs(res.sounds or {}) do
+      table.insert(lines, string.format("  %s (%d)", sound.name, #sound.files))
+    end
+    notify(string.format("🥁 samples('%s')\n%s", res.url, table.concat(lines, "\n")))
+  end)
+end
+
+-- Offline cache of github: packs: "list", "prefetch" (packs of the current buffer, or PACK), "evict PACK"
+function M.sample_cache(action, pack)
+  action = action or "list"
+  local requests = {
+    list = { "GET", "/api/samples/cache", nil },
+    prefetch = {
+      "POST",
+      "/api/samples/cache/prefetch",
+      json_encode(pack and { pack = pack } or { code = table.concat(vim.api.nvim_buf_get_lines(0, 0, -1, false), "\n") }),
+    },
+    evict = { "POST", "/api/samples/cache/evict", json_encode({ pack = pack }) },
+  }
+  local request = requests[action]
+  if not request or (action == "evict" and not pack) then
+    return notify("Usage: :Strudel cache list|prefetch [PACK]|evict PACK", vim.log.levels.WARN)
+  end
+
+  if action == "prefetch" then
+    notify("📦 Prefetching samples...")
+  end
+  curl_async(request[1], request[2], request[3], function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or type(res) ~= "table" then
+      return notify("Sample cache request failed", vim.log.levels.ERROR)
+    end
+    if res.error then
+      return notify(res.error, vim.log.levels.ERROR)
+    end
+
+    local lines = {}
+    if action == "list" then
+      for _, p in ipairs(res.packs or {}) do
+        table.insert(lines, string.format("  github:%s  %d files, %.1f MB", p.pack, p.files, p.size / 1048576))
+      end
+      notify("📦 Cached packs:\n" .. (#lines > 0 and table.concat(lines, "\n") or "  (none)"))
+    elseif action == "prefetch" then
+      for _, p in ipairs(res.packs or {}) do
+        table.insert(lines, string.format("  github:%s  %d files, %d failed", p.pack, p.files, #p.failed))
+      end
+      notify("📦 Prefetched:\n" .. (#lines > 0 and table.concat(lines, "\n") or "  (no github: packs)"),
+        res.success and vim.log.levels.INFO or vim.log.levels.WARN)
+    else
+      notify(string.format("🗑️ Evicted %s (%d files)", pack, res.files))
+    end
+  end)
+end
+
+-- Neovim connections of the server: "list", "use NAME", "connect ADDRESS [NAME]", "disconnect NAME"
+function M.neovim(action, target, name)
+  action = action or "list"
+  if action == "register" then
+    return M.register()
+  end
+  local requests = {
+    list = { "GET", "/api/neovim/instances", nil },
+    use = { "POST", "/api/neovim/active", json_encode({ name = target }) },
+    connect = { "POST", "/api/neovim/connect", json_encode({ address = target, name = name }) },
+    disconnect = { "POST", "/api/neovim/disconnect", json_encode({ name = target }) },
+  }
+  local request = requests[action]
+  if not request or (action ~= "list" and not target) then
+    return notify("Usage: :Strudel nvim list|register|use NAME|connect ADDRESS [NAME]|disconnect NAME", vim.log.levels.WARN)
+  end
+
+  curl_async(request[1], request[2], request[3], function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or type(res) ~= "table" then
+      return notify("Neovim connection request failed", vim.log.levels.ERROR)
+    end
+    if res.error or res.success == false then
+      return notify(res.error or res.message or "Request failed", vim.log.levels.ERROR)
+    end
+
+    local lines = {}
+    for _, instance in ipairs(res.instances or {}) do
+      table.insert(lines, string.format("  %s %s (%s) %s%s", instance.active and "▶" or " ", instance.name,
+        instance.address or "?", instance.state or "", instance.lastError and (": " .. instance.lastError) or ""))
+    end
+    notify("🔌 Neovim instances:\n" .. (#lines > 0 and table.concat(lines, "\n") or "  (none)"))
+  end)
+end
+
+-- Static check of the current buffer: syntax, mini-notation and unknown functions, shown as diagnostics
+local lint_ns = vim.api.nvim_create_namespace("strudel_lint")
+
+-- Evaluate the current buffer on save ("save"), while typing ("live"), or only when sent ("off");
+-- without a mode, show the buffers that evaluate automatically
+function M.evaluation_mode(mode)
+  local file = vim.api.nvim_buf_get_name(0)
+  local body = mode and json_encode({ file = file, mode = mode }) or nil
+  curl_async(mode and "POST" or "GET", "/api/neovim/evaluation", body, function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or type(res) ~= "table" then
+      return notify("Evaluation mode request failed", vim.log.levels.ERROR)
+    end
+    if not res.success then
+      return notify(res.error or "Evaluation mode request failed", vim.log.levels.ERROR)
+    end
+    if mode then
+      return notify(string.format("⚡ %s: %s", vim.fn.fnamemodify(file, ":t"), mode))
+    end
+
+    local lines = {}
+    for _, entry in ipairs(res.modes or {}) do
+      table.insert(lines, string.format("  %s %s%s", entry.mode, vim.fn.fnamemodify(entry.file, ":~:."),
+        entry.lastOutcome and (" (" .. entry.lastOutcome .. ")") or ""))
+    end
+    notify("⚡ Automatic evaluation:\n" .. (#lines > 0 and table.concat(lines, "\n") or "  (none)"))
+  end)
+end
+
+function M.lint()
+  local bufnr = vim.api.nvim_get_current_buf()
+  local code = table.concat(vim.api.nvim_buf_get_lines(bufnr, 0, -1, false), "\n")
+  curl_async("POST", "/api/lint", json_encode({ code = code }), function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if not decoded or type(res) ~= "table" or not res.diagnostics then
+      return notify("Lint request failed", vim.log.levels.ERROR)
+    end
+    if not vim.api.nvim_buf_is_valid(bufnr) then
+      return
+    end
+
+    local diagnostics = {}
+    for _, d in ipairs(res.diagnostics) do
+      table.insert(diagnostics, {
+        lnum = d.line - 1,
+        col = d.column - 1,
+        end_lnum = d.endLine - 1,
+        end_col = d.endColumn - 1,
+        severity = d.severity == "error" and vim.diagnostic.severity.ERROR or vim.diagnostic.severity.WARN,
+        source = "strudel",
+        message = d.message,
+      })
+    end
+    vim.diagnostic.set(lint_ns, bufnr, diagnostics)
+    if #diagnostics == 0 then
+      notify("✅ No problems found")
+    end
+  end)
+end
+
 --------------------------------------------------------------------
--- 7. SOCKET SERVER HELPER ----------------------------------------
+-- 7. LIVE EVENTS (WebSocket) ---------------------------------------
+--------------------------------------------------------------------
+-- Minimal WebSocket client over vim.uv: the server only pushes small JSON
+-- text frames, so we handle text, ping and close and ignore the rest.
+local uv = vim.uv or vim.loop
+local bit = require("bit")
+
+-- libuv callbacks run in a fast context where vim.notify is not allowed
+local function log_async(msg)
+  vim.schedule(function()
+    debug_log(msg)
+  end)
+end
+
+local events = {
+  tcp = nil,
+  buffer = "",
+  handshake_done = false,
+  reconnect_timer = nil,
+  listeners = {},
+}
+
+-- Register a callback for a server event type (e.g. "playback:started")
+function M.on_event(event_type, fn)
+  events.listeners[event_type] = events.listeners[event_type] or {}
+  table.insert(events.listeners[event_type], fn)
+end
+
+local function handle_event(payload)
+  local ok, ev = pcall(vim.json.decode, payload)
+  if not ok or type(ev) ~= "table" or not ev.type then
+    return debug_log("Ignoring malformed event: " .. payload)
+  end
+  -- Highlight frames and buffer edits arrive many times per second
+  if ev.type ~= "playback:highlight" and ev.type ~= "file:changed" then
+    debug_log("Event received: " .. ev.type)
+  end
+
+  local data = ev.data or {}
+  if ev.type == "server:state" then
+    -- Sent on every (re)connect of the stream: a restarted server learns about this editor again
+    M.register()
+    M.config.playing = data.playing == true
+    M.config.recording = data.recording == true
+  elseif ev.type == "playback:started" then
+    M.config.playing = true
+  elseif ev.type == "playback:stopped" then
+    M.config.playing = false
+  elseif ev.type == "recording:started" then
+    M.config.recording = true
+  elseif ev.type == "recording:stopped" then
+    M.config.recording = false
+  elseif ev.type == "browser:crashed" then
+    M.config.playing = false
+    M.config.recording = false
+    notify("💥 Strudel browser crashed: " .. (data.reason or "unknown"), vim.log.levels.ERROR)
+  end
+
+  for _, fn in ipairs(events.listeners[ev.type] or {}) do
+    pcall(fn, data, ev)
+  end
+end
+
+-- Client frames must be masked; an all-zero mask keeps the payload as is
+local function send_frame(opcode, payload)
+  if not events.tcp then
+    return
+  end
+  payload = payload or ""
+  -- Lengths past 125 bytes go into a 16- or 64-bit extended field
+  local len = #payload
+  local header
+  if len < 126 then
+    header = string.char(bit.bor(0x80, opcode), bit.bor(0x80, len))
+  elseif len < 65536 then
+    header = string.char(bit.bor(0x80, opcode), bit.bor(0x80, 126), math.floor(len / 256), len % 256)
+  else
+    local bytes = {}
+    for i = 8, 1, -1 do
+      bytes[i] = len % 256
+      len = math.floor(len / 256)
+    end
+    header = string.char(bit.bor(0x80, opcode), bit.bor(0x80, 127), unpack(bytes))
+  end
+  events.tcp:write(header .. string.char(0, 0, 0, 0) .. payload)
+end
+
+local function read_frames()
+  while true do
+    local buf = events.buffer
+    if #buf < 2 then
+      return
+    end
+    local b1, b2 = buf:byte(1, 2)
+    local opcode = bit.band(b1, 0x0f)
+    local len = bit.band(b2, 0x7f)
+    local offset = 3
+    if len == 126 then
+      if #buf < 4 then
+        return
+      end
+      local hi, lo = buf:byte(3, 4)
+      len = hi * 256 + lo
+      offset = 5
+    elseif len == 127 then
+      if #buf < 10 then
+        return
+      end
+      len = 0
+      for i = 3, 10 do
+        len = len * 256 + buf:byte(i)
+      end
+      offset = 11
+    end
+    if #buf < offset + len - 1 then
+      return
+    end
+
+    local payload = buf:sub(offset, offset + len - 1)
+    events.buffer = buf:sub(offset + len)
+
+    if opcode == 0x1 then
+      vim.schedule(function()
+        handle_event(payload)
+      end)
+    elseif opcode == 0x9 then
+      send_frame(0xA, payload)
+    elseif opcode == 0x8 then
+      return M.events_disconnect(true)
+    end
+  end
+end
+
+local function schedule_reconnect()
+  if not M.config.live_events or events.reconnect_timer then
+    return
+  end
+  events.reconnect_timer = vim.defer_fn(function()
+    events.reconnect_timer = nil
+    M.events_connect()
+  end, M.config.events_reconnect_ms)
+end
+
+function M.events_disconnect(reconnect)
+  if events.tcp then
+    if not events.tcp:is_closing() then
+      events.tcp:close()
+    end
+    events.tcp = nil
+  end
+  events.buffer = ""
+  events.handshake_done = false
+  if reconnect then
+    schedule_reconnect()
+  end
+end
+
+function M.events_connect()
+  if events.tcp then
+    return
+  end
+
+  local host, port = M.config.server_url:match("^https?://([^:/]+):?(%d*)")
+  port = tonumber(port) or 80
+  if not host then
+    return notify("Invalid server_url: " .. M.config.server_url, vim.log.levels.ERROR)
+  end
+
+  uv.getaddrinfo(host, nil, { socktype = "stream" }, function(err, res)
+    if err or not res or not res[1] then
+      log_async("Event stream: cannot resolve " .. host)
+      return M.events_disconnect(true)
+    end
+
+    local tcp = uv.new_tcp()
+    events.tcp = tcp
+    tcp:connect(res[1].addr, port, function(conn_err)
+      if conn_err then
+        log_async("Event stream: connect failed - " .. conn_err)
+        return M.events_disconnect(true)
+      end
+
+      tcp:write(table.concat({
+        "GET /ws HTTP/1.1",
+        "Host: " .. host .. ":" .. port,
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        "Sec-WebSocket-Key: c3RydWRlbC56ZWRyby5ldnQ=",
+        "Sec-WebSocket-Version: 13",
+        "",
+        "",
+      }, "\r\n"))
+
+      tcp:read_start(function(read_err, chunk)
+        if read_err or not chunk then
+          log_async("Event stream closed")
+          return M.events_disconnect(true)
+        end
+
+        events.buffer = events.buffer .. chunk
+        if not events.handshake_done then
+          local header_end = events.buffer:find("\r\n\r\n", 1, true)
+          if not header_end then
+            return
+          end
+          if not events.buffer:match("^HTTP/1%.1 101") then
+            log_async("Event stream: upgrade rejected")
+            return M.events_disconnect(true)
+          end
+          events.buffer = events.buffer:sub(header_end + 4)
+          events.handshake_done = true
+          log_async("Event stream connected")
+        end
+        read_frames()
+      end)
+    end)
+  end)
+end
+
+--------------------------------------------------------------------
+-- 8. SOCKET SERVER HELPER ----------------------------------------
 --------------------------------------------------------------------
 function M.ensure_socket_server()
   if vim.v.servername ~= "" then
@@ -314,8 +1120,42 @@ function M.ensure_socket_server()
   return srv
 end
 
+-- Announce this editor to the server, which connects to exactly this address
+function M.register()
+  local address = M.ensure_socket_server()
+  if address == "" then
+    return
+  end
+  curl_async("POST", "/api/neovim/register", json_encode({
+    address = address,
+    pid = vim.fn.getpid(),
+    cwd = vim.fn.getcwd(),
+    name = M.config.nvim_name,
+  }), function(ok, data)
+    local decoded, res = pcall(vim.fn.json_decode, ok and data or "")
+    if decoded and type(res) == "table" and res.success then
+      debug_log("Registered with the server as " .. address)
+    else
+      debug_log("Registration failed: " .. tostring(data))
+    end
+  end)
+end
+
+-- Runs as Neovim exits, so it waits for curl instead of going through curl_async
+function M.unregister()
+  if vim.v.servername == "" then
+    return
+  end
+  vim.fn.system({
+    "curl", "-s", "-X", "POST", "--max-time", "1",
+    "-H", "Content-Type: application/json",
+    "--data-binary", json_encode({ address = vim.v.servername }),
+    M.config.server_url .. "/api/neovim/unregister",
+  })
+end
+
 --------------------------------------------------------------------
--- 8. DEBUG ----------------------------------------
+-- 9. DEBUG ----------------------------------------
 --------------------------------------------------------------------
 function M.debug_state()
   debug_log("=== STATE DEBUG ===")
@@ -331,12 +1171,73 @@ function M.check_server_health()
 end
 
 --------------------------------------------------------------------
--- 9. SETUP & COMMANDS --------------------------------------------
+-- 10. SETUP & COMMANDS -------------------------------------------
 --------------------------------------------------------------------
 local strudel_subcommands = {
   browser = { fn = M.browser_init, desc = "Start browser" },
   sendbuf = { fn = M.send_buffer, desc = "Send buffer" },
   toggle = { fn = M.toggle_strudel, desc = "Toggle Strudel Playback" },
+  record = { fn = M.toggle_recording, desc = "Toggle recording of the live output" },
+  block = { fn = M.send_block, desc = "Send labelled block under cursor" },
+  tracks = { fn = M.tracks, desc = "List labelled blocks" },
+  mute = { fn = function(opts) M.track_mute(opts.fargs[2]) end, desc = "Mute a track" },
+  unmute = { fn = function(opts) M.track_unmute(opts.fargs[2]) end, desc = "Unmute a track" },
+  solo = { fn = function(opts) M.track_solo(opts.fargs[2]) end, desc = "Solo a track" },
+  unsolo = { fn = function(opts) M.track_unsolo(opts.fargs[2]) end, desc = "Unsolo a track" },
+  sliders = { fn = M.sliders, desc = "List sliders" },
+  quantize = {
+    fn = function(opts)
+      local value = opts.fargs[2]
+      M.config.quantize = (value == nil or value == "now") and nil or (tonumber(value) or value)
+      notify("Quantize: " .. tostring(M.config.quantize or "now"))
+    end,
+    desc = "Set quantization: now, cycle, N or at:CYCLE",
+  },
+  history = { fn = M.history, desc = "Show evaluation history" },
+  diff = {
+    fn = function(opts) M.history_diff(tonumber(opts.fargs[2]), tonumber(opts.fargs[3])) end,
+    desc = "Diff history entries: diff FROM [TO]",
+  },
+  rollback = { fn = function(opts) M.rollback(tonumber(opts.fargs[2])) end, desc = "Roll back to a history entry" },
+  session = {
+    fn = function(opts) M.session(opts.fargs[2], opts.fargs[3], tonumber(opts.fargs[4])) end,
+    desc = "Record or replay a performance session",
+  },
+  scene = {
+    fn = function(opts) M.scene(opts.fargs[2], opts.fargs[3]) end,
+    desc = "Switch set list scenes: scene next|prev|goto N|NAME|list",
+  },
+  safe = { fn = M.toggle_safe_send, desc = "Toggle safe send" },
+  nvim = {
+    fn = function(opts) M.neovim(opts.fargs[2], opts.fargs[3], opts.fargs[4]) end,
+    desc = "Server's Neovim connections: nvim list|register|use NAME|connect ADDRESS [NAME]|disconnect NAME",
+  },
+  auto = {
+    fn = function(opts) M.evaluation_mode(opts.fargs[2]) end,
+    desc = "Evaluate this buffer automatically: auto off|save|live",
+  },
+  lint = { fn = M.lint, desc = "Check the buffer for syntax, mini-notation and unknown functions" },
+  samples = { fn = M.samples, desc = "List local samples" },
+  cache = {
+    fn = function(opts) M.sample_cache(opts.fargs[2], opts.fargs[3]) end,
+    desc = "Offline sample cache: cache list|prefetch [PACK]|evict PACK",
+  },
+  tempo = { fn = function(opts) M.tempo(tonumber(opts.fargs[2])) end, desc = "Show or set tempo (bpm)" },
+  tap = { fn = M.tap_tempo, desc = "Tap tempo" },
+  faster = { fn = function(opts) M.nudge_tempo(tonumber(opts.fargs[2]) or 0.01) end, desc = "Nudge tempo up" },
+  slower = { fn = function(opts) M.nudge_tempo(-(tonumber(opts.fargs[2]) or 0.01)) end, desc = "Nudge tempo down" },
+  slider = {
+    fn = function(opts)
+      M.set_slider(opts.fargs[2], { value = tonumber(opts.fargs[3]) })
+    end,
+    desc = "Set a slider: slider NAME VALUE",
+  },
+  nudge = {
+    fn = function(opts)
+      M.set_slider(opts.fargs[2], { delta = tonumber(opts.fargs[3]) })
+    end,
+    desc = "Move a slider: nudge NAME DELTA",
+  },
   files = { fn = M.file_list, desc = "List files" },
   refresh = { fn = M.refresh_files, desc = "Refresh files" },
   debug = { fn = M.debug_state, desc = "Show Strudel state" },
@@ -385,6 +1286,9 @@ vim.api.nvim_create_autocmd("FileType", {
   callback = function(args)
     local bufnr = args.buf
     vim.keymap.set("n", "<leader>ss", M.send_buffer, { buffer = bufnr, desc = "Strudel: send buffer" })
+    vim.keymap.set("n", "<leader>sb", M.send_block, { buffer = bufnr, desc = "Strudel: send block under cursor" })
+    vim.keymap.set("n", "<leader>s]", function() M.scene("next") end, { buffer = bufnr, desc = "Strudel: next scene" })
+    vim.keymap.set("n", "<leader>s[", function() M.scene("prev") end, { buffer = bufnr, desc = "Strudel: previous scene" })
     vim.keymap.set("n", "<leader>sh", M.stop_strudel, { buffer = bufnr, desc = "Strudel: hush/stop" })
     vim.keymap.set("n", "<leader>st", M.toggle_strudel, { buffer = bufnr, desc = "Strudel: toggle" })
     vim.keymap.set("n", "<leader>si", M.browser_init, { buffer = bufnr, desc = "Strudel: init browser" })
@@ -395,7 +1299,14 @@ vim.api.nvim_create_autocmd("FileType", {
 
 function M.setup(opts)
   M.config = vim.tbl_deep_extend("force", M.config, opts or {})
-  M.ensure_socket_server()
+  M.register()
+  vim.api.nvim_create_autocmd("VimLeavePre", {
+    group = vim.api.nvim_create_augroup("StrudelRegistration", { clear = true }),
+    callback = M.unregister,
+  })
+  if M.config.live_events then
+    M.events_connect()
+  end
 end
 
 return M
@@ -1 +1,4 @@
 declare module "@strudel/web"
+declare module "@strudel/core"
+declare module "@strudel/mini"
+declare module "@strudel/tonal"